@@ -1,38 +1,114 @@
 import React, { useEffect, useRef, useState } from 'react';
 import styles from '../styles/BlocklyWorkspace.module.css';
 import { BlocklyOptions } from 'blockly';
-import { initCollaboration, setupBlocklySync, setupCursorTracking } from '../lib/collab';
+import {
+  initCollaboration,
+  setupBlocklySync,
+  setupCursorTracking,
+  observeCollaborationLevel,
+  setCollaborationLevel,
+  observeEditTurn,
+  setTurnTaking,
+  requestEditTurn,
+  passEditTurn,
+  setupAutosave,
+  setupReconnection,
+  setupWebrtcFallback,
+  seedCollaborationLevel,
+  AutosaveStatus,
+  ConnectionState,
+  CollaborationLevel,
+  COLLABORATION_LEVELS,
+  EditTurnState,
+  SyncUser
+} from '../lib/collab';
+import { registerTurtleBlocks, TURTLE_TOOLBOX_CATEGORY } from '../lib/turtleBlocks';
+import { getBreakpoints, registerBreakpointMenu } from '../lib/breakpoints';
+import { createRunGenerator, runCode, SpriteAction } from '../lib/codeRunner';
+
+// Labels shown for each collaboration level
+const COLLABORATION_LEVEL_LABELS: Record<CollaborationLevel, string> = {
+  independent: 'Independent - work on your own blocks',
+  guided: 'Guided - edit your blocks, suggest changes to others',
+  collaborative: 'Collaborative - everyone edits together'
+};
+
+// How often the edit turn can rotate automatically, in seconds (0 = never)
+const TURN_ROTATION_OPTIONS = [0, 60, 120, 300];
+
+// Lines the console keeps, older ones scroll away
+const MAX_CONSOLE_LINES = 500;
+
+interface ConsoleLine {
+  kind: 'output' | 'input' | 'error' | 'info';
+  text: string;
+}
+
+const CONSOLE_LINE_CLASSES: Record<ConsoleLine['kind'], string> = {
+  output: styles.consoleOutput,
+  input: styles.consoleInput,
+  error: styles.consoleError,
+  info: styles.consoleInfo
+};
 
 interface BlocklyWorkspaceProps {
   roomId?: string;
+  projectId?: string; // Changes are autosaved to this project
+  isProjectOwner?: boolean; // Project owners manage the level and turns, as room creators do
+  projectCollaborationLevel?: CollaborationLevel; // The level stored on the project
   userId?: string;
   userName?: string;
   userEmail?: string;
   initialXml?: string;
+  readOnly?: boolean; // Viewers can watch but not change the blocks
   onConnectionStatusChange?: (connected: boolean) => void;
   onUserCountChange?: (count: number) => void;
   onBlocklyInit?: (instance: any) => void;
+  onAutosaveStatusChange?: (status: AutosaveStatus) => void;
+  onRunCode?: () => void; // A run of the generated JavaScript starts
+  onSpriteAction?: (action: SpriteAction) => void; // Its turtle calls
 }
 
 const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({ 
   roomId = 'default-room',
+  projectId,
+  isProjectOwner = false,
+  projectCollaborationLevel,
   userId = 'anonymous',
   userName = 'Anonymous User',
   userEmail = 'anonymous@example.com',
   initialXml,
+  readOnly = false,
   onConnectionStatusChange,
   onUserCountChange,
-  onBlocklyInit
+  onBlocklyInit,
+  onAutosaveStatusChange,
+  onRunCode,
+  onSpriteAction
 }) => {
   const blocklyDiv = useRef<HTMLDivElement>(null);
   const [workspace, setWorkspace] = useState<any>(null);
   const [generatedCode, setGeneratedCode] = useState<string>('');
   const [showCode, setShowCode] = useState<boolean>(true);
+  const [consoleLines, setConsoleLines] = useState<ConsoleLine[]>([]);
+  const [isRunningCode, setIsRunningCode] = useState<boolean>(false);
+  const [pendingPrompt, setPendingPrompt] = useState<{ message: string; answer: (value: string | null) => void } | null>(null);
+  const [promptValue, setPromptValue] = useState<string>('');
+  const stopCodeRef = useRef<(() => void) | null>(null);
   const [collaborationStatus, setCollaborationStatus] = useState<string>('Initializing collaboration...');
   const [userCount, setUserCount] = useState<number>(1);
   const [isConnected, setIsConnected] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [debugInfo, setDebugInfo] = useState<string>('');
+  const [collaborationLevel, setCollaborationLevelState] = useState<CollaborationLevel | null>(null);
+  const [isRoomCreator, setIsRoomCreator] = useState<boolean>(false);
+  const [editTurn, setEditTurn] = useState<EditTurnState | null>(null);
+  const [undoState, setUndoState] = useState({ canUndo: false, canRedo: false });
+  const [connectionState, setConnectionState] = useState<ConnectionState | null>(null);
+  const [peerToPeer, setPeerToPeer] = useState<boolean>(false);
+  const reconnectRef = useRef<(() => void) | null>(null);
+  const ydocRef = useRef<any>(null);
+  const awarenessRef = useRef<any>(null);
   const blocklyInstanceRef = useRef<any>(null);
   const handleResizeRef = useRef<(() => void) | null>(null);
 
@@ -117,6 +193,8 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
         
         // Make sure we have all the blocks we need
         await import('blockly/blocks');
+        registerTurtleBlocks(Blockly, BlocklyJS);
+        registerBreakpointMenu(Blockly);
         setDebugInfo("Blockly blocks loaded");
 
         // Apply custom category styling after load
@@ -157,15 +235,17 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
         };
         
         // Configure workspace
+        // Viewers get a read-only workspace without toolbox or block dragging
         const options: BlocklyOptions = {
-          toolbox: getToolboxConfiguration(),
+          readOnly,
+          toolbox: readOnly ? undefined : getToolboxConfiguration(),
           grid: {
             spacing: 20,
             length: 3,
             colour: '#ccc',
             snap: true,
           },
-          trashcan: true,
+          trashcan: !readOnly,
           zoom: {
             controls: true,
             wheel: true,
@@ -265,6 +345,70 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
               console.error("Error converting workspace to XML:", err);
               return '';
             }
+          },
+          getBlockCount: () => newWorkspace.getAllBlocks(false).length,
+          // The program as saved blocks, for the compiler in logovm/
+          getWorkspaceState: () => Blockly.serialization.workspaces.save(newWorkspace),
+          // Point out a block, e.g. the one a program stopped at
+          selectBlock: (blockId: string) => {
+            const block = newWorkspace.getBlockById(blockId);
+            if (!block) return;
+            newWorkspace.centerOnBlock(blockId);
+            block.select();
+          },
+          // The block the debugger is at, null to clear it
+          highlightBlock: (blockId: string | null) => {
+            newWorkspace.highlightBlock(blockId);
+          },
+          getBreakpoints: () => getBreakpoints(newWorkspace),
+          // JavaScript for the code runner, see lib/codeRunner.ts
+          getRunnableCode: () => createRunGenerator(BlocklyJS).workspaceToCode(newWorkspace),
+          // Small SVG picture of the blocks for version history. It's drawn
+          // from a hidden read-only copy, so lock outlines and dimmed stacks
+          // stay out of it, and carries Blockly's styles from the page
+          getThumbnail: () => {
+            const copyDiv = document.createElement('div');
+            copyDiv.style.position = 'absolute';
+            copyDiv.style.left = '-10000px';
+            copyDiv.style.width = '240px';
+            copyDiv.style.height = '160px';
+            document.body.appendChild(copyDiv);
+            
+            let copy: any = null;
+            try {
+              copy = Blockly.inject(copyDiv, {
+                readOnly: true,
+                renderer: options.renderer,
+                theme: newWorkspace.getTheme(),
+              });
+              // inject makes the copy the main workspace, the real one stays it
+              Blockly.common.setMainWorkspace(newWorkspace);
+              Blockly.serialization.workspaces.load(
+                Blockly.serialization.workspaces.save(newWorkspace),
+                copy,
+                { recordUndo: false }
+              );
+              
+              const canvas = copy.getCanvas();
+              const box = canvas.getBBox();
+              if (!box.width || !box.height) return '';
+              
+              // Renderer and theme styles are scoped to these classes
+              const classes = copy.getParentSvg().getAttribute('class') || '';
+              const css = Array.from(document.querySelectorAll('style[id^="blockly-"]'))
+                .map(style => style.textContent)
+                .join('\n');
+              const svg = `<svg xmlns="http://www.w3.org/2000/svg" class="${classes}" width="240" height="160" ` +
+                `viewBox="${box.x} ${box.y} ${box.width} ${box.height}">` +
+                `<style><![CDATA[${css}]]></style>${canvas.innerHTML}</svg>`;
+              return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+            } catch (err) {
+              console.error("Error creating workspace thumbnail:", err);
+              return '';
+            } finally {
+              copy?.dispose();
+              copyDiv.remove();
+            }
           }
         };
         
@@ -327,7 +471,7 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
           setIsConnected(false);
           
           // Initialize collaboration - Pass Blockly properly as an object
-          const { ydoc, provider, awareness, connected } = await initCollaboration(
+          const { ydoc, provider, awareness, connected, whenRoomData, localPersistence } = await initCollaboration(
             roomId, 
             userId, 
             newWorkspace, 
@@ -335,10 +479,68 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
           );
           
           // Set up Blockly synchronization with proper Blockly reference
-          const cleanup = setupBlocklySync(newWorkspace, ydoc, {
-            blockly: Blockly  // This correctly passes the Blockly API
+          const syncCleanup = setupBlocklySync(newWorkspace, ydoc, {
+            blockly: Blockly,  // This correctly passes the Blockly API
+            user: getSyncUser(),
+            awareness,
+            readOnly,
+            onUndoStateChange: setUndoState
           });
           
+          // Follow the room's collaboration level as the creator switches it
+          ydocRef.current = ydoc;
+          awarenessRef.current = awareness;
+          // Project rooms have no room document, the level is on the project
+          if (projectId) {
+            if (!readOnly) seedCollaborationLevel(ydoc, projectCollaborationLevel);
+          } else {
+            whenRoomData?.then((roomData: any) => {
+              if (!roomData || ydocRef.current !== ydoc) return;
+              setIsRoomCreator(roomData.createdBy === userId);
+              if (!readOnly) seedCollaborationLevel(ydoc, roomData.collaborationLevel);
+            });
+          }
+          const levelCleanup = ydoc
+            ? observeCollaborationLevel(ydoc, setCollaborationLevelState)
+            : null;
+          const turnCleanup = ydoc ? observeEditTurn(ydoc, setEditTurn) : null;
+          
+          // Project workspaces save themselves, the save button saves straight away
+          const autosave = projectId && ydoc && provider
+            ? setupAutosave(newWorkspace, ydoc, provider, {
+                projectId,
+                blockly: Blockly,
+                readOnly,
+                onStatusChange: (status) => onAutosaveStatusChange?.(status)
+              })
+            : null;
+          if (autosave) {
+            (blocklyWithWorkspace as any).saveNow = autosave.saveNow;
+            (blocklyWithWorkspace as any).isAutosaveLeader = autosave.isLeader;
+          }
+          
+          // Keep working offline while the connection is retried
+          const reconnection = provider ? setupReconnection(provider, setConnectionState) : null;
+          reconnectRef.current = reconnection ? reconnection.reconnect : null;
+          // Viewers stay on the server, which keeps them read-only
+          const fallbackCleanup = ydoc && provider && !readOnly
+            ? setupWebrtcFallback(ydoc, provider, roomId, setPeerToPeer)
+            : null;
+          
+          const cleanup = () => {
+            if (syncCleanup) syncCleanup();
+            if (levelCleanup) levelCleanup();
+            if (turnCleanup) turnCleanup();
+            if (autosave) autosave.cleanup();
+            if (reconnection) reconnection.cleanup();
+            if (fallbackCleanup) fallbackCleanup();
+            reconnectRef.current = null;
+            // Leave the room so a new role reconnects with its own access
+            if (provider) provider.destroy();
+            if (localPersistence) localPersistence.destroy();
+          };
+          collaborationCleanup = cleanup;
+          
           // Set up cursor tracking if the provider is available
           if (blocklyDiv.current && provider) {
             const cursorCleanup = setupCursorTracking(
@@ -346,6 +548,7 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
               ydoc,
               provider,
               { 
+                id: userId,
                 name: userName || userEmail.split('@')[0] || userId,  // Use userName first, then fallback
                 email: userEmail,
                 color: generateUserColor(userId)
@@ -391,11 +594,7 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
             setUserCount(count);
             if (onUserCountChange) onUserCountChange(count);
           });
-          
-          // Store the collaboration cleanup
-          if (!collaborationCleanup) {
-            collaborationCleanup = cleanup;
-          }
+
         } catch (error) {
           console.error('Error setting up collaboration:', error);
           setCollaborationStatus('Error connecting to collaboration server');
@@ -438,7 +637,7 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
       
       window.removeEventListener('resize', () => {});
     };
-  }, [roomId]); // Only re-run if roomId changes
+  }, [roomId, projectId, readOnly]); // Re-run if roomId changes or the user's role switches between viewer and editor
 
   // Handle page unload to clean up resources
   useEffect(() => {
@@ -459,11 +658,99 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
     };
   }, [roomId, userId]);
 
+  // Stop a running program when the workspace goes away
+  useEffect(() => () => stopCodeRef.current?.(), []);
+
+  const addConsoleLine = (line: ConsoleLine) => {
+    setConsoleLines(lines => [...lines, line].slice(-MAX_CONSOLE_LINES));
+  };
+
+  const finishProgram = () => {
+    stopCodeRef.current = null;
+    setIsRunningCode(false);
+    setPendingPrompt(null);
+  };
+
+  // Run the generated JavaScript in a worker, its output goes to the console
+  const runProgram = () => {
+    const instance = blocklyInstanceRef.current;
+    if (!instance || isRunningCode) return;
+
+    let code: string;
+    try {
+      code = instance.getRunnableCode();
+    } catch (error) {
+      console.error('Error generating code to run:', error);
+      addConsoleLine({ kind: 'error', text: 'This program could not be turned into JavaScript' });
+      return;
+    }
+
+    setConsoleLines([{ kind: 'info', text: 'Running...' }]);
+    setIsRunningCode(true);
+    onRunCode?.();
+
+    stopCodeRef.current = runCode(code, {
+      onPrint: (text) => addConsoleLine({ kind: 'output', text }),
+      onPrompt: (message) => new Promise(resolve => {
+        setPromptValue('');
+        setPendingPrompt({
+          message,
+          answer: (value) => {
+            setPendingPrompt(null);
+            addConsoleLine({ kind: 'input', text: `${message} ${value ?? '(cancelled)'}` });
+            resolve(value);
+          }
+        });
+      }),
+      onSpriteAction: (action) => onSpriteAction?.(action),
+      onDone: () => {
+        finishProgram();
+        addConsoleLine({ kind: 'info', text: 'Done' });
+      },
+      onError: (message, blockId) => {
+        finishProgram();
+        addConsoleLine({ kind: 'error', text: message });
+        if (blockId) instance.selectBlock(blockId);
+      }
+    });
+  };
+
+  const stopProgram = () => {
+    stopCodeRef.current?.();
+    finishProgram();
+    addConsoleLine({ kind: 'info', text: 'Stopped' });
+  };
+
+  // The local user as passed to the sync layer
+  const getSyncUser = (): SyncUser => ({
+    id: userId,
+    name: userName || userEmail.split('@')[0] || userId,
+    color: generateUserColor(userId)
+  });
+
+  // Turn the talking-stick mode on or off (room creator or project owner only)
+  const handleTurnTakingChange = (enabled: boolean, rotateSeconds: number) => {
+    setTurnTaking(ydocRef.current, enabled, getSyncUser(), rotateSeconds);
+  };
+
+  // Room creators, or project owners in project rooms, run the room
+  const canManageRoom = projectId ? isProjectOwner : isRoomCreator;
+
+  // Switch the room's collaboration level (room creator or project owner only)
+  const handleCollaborationLevelChange = async (level: CollaborationLevel) => {
+    try {
+      await setCollaborationLevel(ydocRef.current, roomId, level, projectId);
+    } catch (error) {
+      console.error('Error changing collaboration level:', error);
+    }
+  };
+
   // Generate toolbox configuration
   function getToolboxConfiguration() {
     return {
       "kind": "categoryToolbox",
       "contents": [
+        TURTLE_TOOLBOX_CATEGORY,
         {
           "kind": "category",
           "name": "Logic",
@@ -603,13 +890,157 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
         </div>
       )}
       
+      {collaborationLevel && (
+        <div className={styles.toolbar}>
+          <div className={styles.collaborationStatus}>
+            Collaboration level:&nbsp;
+            {canManageRoom ? (
+              <select
+                className={styles.levelSelect}
+                value={collaborationLevel}
+                onChange={(e) => handleCollaborationLevelChange(e.target.value as CollaborationLevel)}
+              >
+                {COLLABORATION_LEVELS.map(level => (
+                  <option key={level} value={level}>
+                    {COLLABORATION_LEVEL_LABELS[level]}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <strong>{COLLABORATION_LEVEL_LABELS[collaborationLevel]}</strong>
+            )}
+          </div>
+          {!readOnly && (
+            <div className={styles.collaborationStatus}>
+              <button
+                className={styles.toolbarButton}
+                disabled={!undoState.canUndo}
+                onClick={() => workspace?.undo(false)}
+                title="Undo your last change (Ctrl+Z)"
+              >
+                Undo
+              </button>
+              <button
+                className={styles.toolbarButton}
+                disabled={!undoState.canRedo}
+                onClick={() => workspace?.undo(true)}
+                title="Redo your last undone change (Ctrl+Y)"
+              >
+                Redo
+              </button>
+            </div>
+          )}
+          {canManageRoom && editTurn && (
+            <div className={styles.collaborationStatus}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={editTurn.enabled}
+                  onChange={(e) => handleTurnTakingChange(e.target.checked, editTurn.rotateSeconds)}
+                />
+                &nbsp;Take turns
+              </label>
+              &nbsp;
+              <select
+                className={styles.levelSelect}
+                value={editTurn.rotateSeconds}
+                disabled={!editTurn.enabled}
+                onChange={(e) => handleTurnTakingChange(true, Number(e.target.value))}
+              >
+                {TURN_ROTATION_OPTIONS.map(seconds => (
+                  <option key={seconds} value={seconds}>
+                    {seconds === 0 ? 'Pass turns by hand' : `Rotate every ${seconds / 60} min`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+      
+      {readOnly && (
+        <div className={styles.turnBanner}>
+          <span>You&apos;re viewing this project. Ask the owner to make you an editor to change the blocks.</span>
+        </div>
+      )}
+      
+      {connectionState && connectionState.status !== 'connected' && (
+        <div className={styles.turnBanner}>
+          <span>
+            {peerToPeer
+              ? 'The collaboration server can\'t be reached. Changes are shared directly with classmates on this network and merged with the server when it\'s back.'
+              : 'You\'re offline. Keep working, your changes are kept on this device and merged with everyone else\'s when the connection is back.'}
+            {connectionState.status === 'reconnecting' && connectionState.retryAt && (
+              <> Reconnecting at {new Date(connectionState.retryAt).toLocaleTimeString()}...</>
+            )}
+          </span>
+          <button
+            className={styles.toolbarButton}
+            onClick={() => reconnectRef.current?.()}
+          >
+            Reconnect now
+          </button>
+        </div>
+      )}
+      
+      {editTurn?.enabled && (
+        <div className={editTurn.holder?.id === userId ? styles.turnBannerActive : styles.turnBanner}>
+          {editTurn.holder?.id === userId ? (
+            <>
+              <span>It&apos;s your turn to edit the blocks.</span>
+              <button
+                className={styles.toolbarButton}
+                onClick={() => passEditTurn(ydocRef.current, undefined, awarenessRef.current)}
+              >
+                Pass the turn{editTurn.queue[0] ? ` to ${editTurn.queue[0].name}` : ''}
+              </button>
+            </>
+          ) : (
+            <>
+              <span>
+                It&apos;s {editTurn.holder?.name || 'nobody'}&apos;s turn to edit. You can watch until it&apos;s yours.
+              </span>
+              {readOnly ? null : editTurn.queue.some(u => u.id === userId) ? (
+                <span>You&apos;re #{editTurn.queue.findIndex(u => u.id === userId) + 1} in line.</span>
+              ) : (
+                <button
+                  className={styles.toolbarButton}
+                  onClick={() => requestEditTurn(ydocRef.current, getSyncUser(), awarenessRef.current)}
+                >
+                  Ask for a turn
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+      
       <div ref={blocklyDiv} className={styles.blocklyDiv}></div>
       
+      {!isLoading && (
+        <div className={styles.runBar}>
+          {isRunningCode ? (
+            <button onClick={stopProgram} className={styles.stopCodeButton}>
+              Stop
+            </button>
+          ) : (
+            <button onClick={runProgram} className={styles.runCodeButton}>
+              Run
+            </button>
+          )}
+          {!showCode && (
+            <button onClick={() => setShowCode(true)} className={styles.hideCodeButton}>
+              Show Code
+            </button>
+          )}
+        </div>
+      )}
+      
       {showCode && generatedCode && (
         <div className={styles.codeContainer}>
           <div className={styles.codeHeader}>
             <h3>Generated JavaScript:</h3>
-            <button onClick={() => setShowCode(!showCode)} className={styles.hideCodeButton}>
+            <button onClick={() => setShowCode(false)} className={styles.hideCodeButton}>
               Hide Code
             </button>
           </div>
@@ -618,6 +1049,50 @@ const BlocklyWorkspace: React.FC<BlocklyWorkspaceProps> = ({
           </pre>
         </div>
       )}
+      
+      {(consoleLines.length > 0 || pendingPrompt) && (
+        <div className={styles.consoleContainer}>
+          <div className={styles.codeHeader}>
+            <h3>Console:</h3>
+            {!isRunningCode && (
+              <button onClick={() => setConsoleLines([])} className={styles.hideCodeButton}>
+                Clear
+              </button>
+            )}
+          </div>
+          <div className={styles.consoleLines}>
+            {consoleLines.map((line, index) => (
+              <div key={index} className={CONSOLE_LINE_CLASSES[line.kind]}>
+                {line.text}
+              </div>
+            ))}
+          </div>
+          {pendingPrompt && (
+            <form
+              className={styles.consolePrompt}
+              onSubmit={(e) => {
+                e.preventDefault();
+                pendingPrompt.answer(promptValue);
+              }}
+            >
+              <label>{pendingPrompt.message}</label>
+              <input
+                autoFocus
+                value={promptValue}
+                onChange={(e) => setPromptValue(e.target.value)}
+              />
+              <button type="submit" className={styles.runCodeButton}>OK</button>
+              <button
+                type="button"
+                className={styles.hideCodeButton}
+                onClick={() => pendingPrompt.answer(null)}
+              >
+                Cancel
+              </button>
+            </form>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,72 @@
+import React from 'react';
+import styles from '@styles/DebuggerPanel.module.css';
+import { VariableValue } from '../logovm/debugger';
+import { LogoValue } from '../logovm/vm';
+
+// What the debugger shows of a paused or running program
+export interface DebugSnapshot {
+  instruction: string; // The next one
+  stack: LogoValue[]; // Top first
+  globals: VariableValue[];
+  call: { name: string; inputs: VariableValue[] } | null;
+}
+
+interface DebuggerPanelProps {
+  snapshot: DebugSnapshot;
+}
+
+const formatValue = (value: LogoValue | undefined) =>
+  value === undefined ? '–' : JSON.stringify(value);
+
+const VariableList: React.FC<{ variables: VariableValue[] }> = ({ variables }) => (
+  <ul className={styles.debugList}>
+    {variables.map(({ name, value }) => (
+      <li key={name}>
+        <span className={styles.debugName}>{name}</span>
+        <span>{formatValue(value)}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+const DebuggerPanel: React.FC<DebuggerPanelProps> = ({ snapshot }) => {
+  const { instruction, stack, globals, call } = snapshot;
+
+  return (
+    <div className={styles.debugPanel}>
+      <h4>Next instruction</h4>
+      <code className={styles.debugInstruction}>{instruction || 'DONE'}</code>
+
+      {call && (
+        <>
+          <h4>In {call.name}</h4>
+          {call.inputs.length > 0 ? (
+            <VariableList variables={call.inputs} />
+          ) : (
+            <p className={styles.debugEmpty}>No inputs</p>
+          )}
+        </>
+      )}
+
+      <h4>Variables</h4>
+      {globals.length > 0 ? (
+        <VariableList variables={globals} />
+      ) : (
+        <p className={styles.debugEmpty}>No variables</p>
+      )}
+
+      <h4>Stack</h4>
+      {stack.length > 0 ? (
+        <ul className={styles.debugList}>
+          {stack.map((value, i) => (
+            <li key={i}>{formatValue(value)}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.debugEmpty}>Empty</p>
+      )}
+    </div>
+  );
+};
+
+export default DebuggerPanel;
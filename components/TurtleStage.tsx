@@ -0,0 +1,427 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import styles from '@styles/TurtleStage.module.css';
+import DebuggerPanel, { DebugSnapshot } from './DebuggerPanel';
+import { SpriteAction } from '../lib/codeRunner';
+import { compile, CompileError, CompiledProgram, WorkspaceState } from '../logovm/compiler';
+import { describeInstruction, getBlockTree, LogoDebugger } from '../logovm/debugger';
+import { createPrimitives, Turtle } from '../logovm/primitives';
+import { LogoVM, LogoVMError } from '../logovm/vm';
+
+interface TurtleStageProps {
+  getWorkspaceState: () => WorkspaceState | null;
+  onBlockError?: (blockId: string) => void; // Point out the block a program failed at
+  onHighlightBlock?: (blockId: string | null) => void; // The block about to run
+  getBreakpoints?: () => string[];
+}
+
+// For programs that run elsewhere and move the ship, see lib/codeRunner.ts
+export interface TurtleStageHandle {
+  reset: () => void;
+  applySpriteAction: (action: SpriteAction) => void;
+}
+
+interface TurtleState {
+  x: number;
+  y: number;
+  heading: number; // Degrees clockwise from up
+  penDown: boolean;
+  penColour: string;
+}
+
+// Stage coordinates run from the middle, y up, like Logo's
+const STAGE_WIDTH = 480;
+const STAGE_HEIGHT = 360;
+
+const HOME: TurtleState = { x: 0, y: 0, heading: 0, penDown: true, penColour: '#ffcc00' };
+
+// Ships from the sprite library, pointing up
+const COSTUMES = [
+  { id: 'blue-ship', name: 'Blue Ship', image: '/images/blue-ship.svg' },
+  { id: 'pink-ship', name: 'Pink Ship', image: '/images/pink-ship.svg' },
+  { id: 'purple-ship', name: 'Purple Ship', image: '/images/purple-ship.svg' }
+];
+
+// Milliseconds per block, fast runs as many as fit in a frame. Instructions
+// per frame are limited so long computations don't block the page
+const SPEEDS = { slow: 500, normal: 50, fast: 0 };
+const INSTRUCTIONS_PER_FRAME = 10000;
+
+type Speed = keyof typeof SPEEDS;
+
+type RunState = 'stopped' | 'running' | 'paused';
+
+// A loaded program and the turtle it drives
+interface Session {
+  debug: LogoDebugger;
+  turtle: TurtleState;
+}
+
+const TurtleStage = forwardRef<TurtleStageHandle, TurtleStageProps>(({
+  getWorkspaceState,
+  onBlockError,
+  onHighlightBlock,
+  getBreakpoints
+}, ref) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const sessionRef = useRef<Session | null>(null);
+  const scriptTurtleRef = useRef<{ state: TurtleState; turtle: Turtle } | null>(null);
+  const [ship, setShip] = useState<TurtleState>(HOME);
+  const [costume, setCostume] = useState(COSTUMES[0].id);
+  const [speed, setSpeed] = useState<Speed>('normal');
+  const [runState, setRunState] = useState<RunState>('stopped');
+  const [snapshot, setSnapshot] = useState<DebugSnapshot | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const cancelFrame = () => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+  };
+
+  // Unload the program, what it drew stays
+  const stop = () => {
+    cancelFrame();
+    sessionRef.current = null;
+    setRunState('stopped');
+    setSnapshot(null);
+    onHighlightBlock?.(null);
+  };
+
+  const clearDrawing = () => {
+    const context = canvasRef.current?.getContext('2d');
+    context?.clearRect(0, 0, STAGE_WIDTH, STAGE_HEIGHT);
+  };
+
+  const reset = () => {
+    stop();
+    clearDrawing();
+    setShip(HOME);
+    setMessage(null);
+  };
+
+  // Stop running when the stage goes away
+  useEffect(() => cancelFrame, []);
+
+  const createCanvasTurtle = (state: TurtleState): Turtle => {
+    const moveTo = (x: number, y: number) => {
+      const context = canvasRef.current?.getContext('2d');
+      if (context && state.penDown) {
+        context.strokeStyle = state.penColour;
+        context.lineWidth = 2;
+        context.lineCap = 'round';
+        context.beginPath();
+        context.moveTo(STAGE_WIDTH / 2 + state.x, STAGE_HEIGHT / 2 - state.y);
+        context.lineTo(STAGE_WIDTH / 2 + x, STAGE_HEIGHT / 2 - y);
+        context.stroke();
+      }
+      state.x = x;
+      state.y = y;
+    };
+
+    return {
+      forward: (steps) => {
+        const radians = (state.heading * Math.PI) / 180;
+        moveTo(state.x + Math.sin(radians) * steps, state.y + Math.cos(radians) * steps);
+      },
+      right: (degrees) => {
+        state.heading = (((state.heading + degrees) % 360) + 360) % 360;
+      },
+      setPenDown: (down) => {
+        state.penDown = down;
+      },
+      setPenColour: (colour) => {
+        state.penColour = colour;
+      },
+      home: () => {
+        moveTo(HOME.x, HOME.y);
+        state.heading = HOME.heading;
+      },
+      clear: clearDrawing
+    };
+  };
+
+  // Show where a program went wrong, on its block when known
+  const showError = (error: unknown, program: CompiledProgram | null) => {
+    let blockId: string | null = null;
+    if (error instanceof CompileError) {
+      blockId = error.blockId;
+    } else if (error instanceof LogoVMError && program) {
+      blockId = program.sourceMap[error.ip];
+    } else {
+      console.error('Error running program:', error);
+    }
+
+    setMessage(error instanceof Error ? error.message : String(error));
+    if (blockId && onBlockError) onBlockError(blockId);
+  };
+
+  // Show the ship, the block about to run and the debugger's view
+  const showSession = ({ debug, turtle }: Session) => {
+    setShip({ ...turtle });
+    setSnapshot({
+      instruction: describeInstruction(debug.vm, debug.vm.ip),
+      stack: debug.getStack(),
+      globals: debug.getGlobals(),
+      call: debug.getCall()
+    });
+    onHighlightBlock?.(debug.currentBlock);
+  };
+
+  // Stop at an error, pointing out its block
+  const fail = (session: Session, error: unknown) => {
+    setShip({ ...session.turtle });
+    stop();
+    showError(error, session.debug.program);
+  };
+
+  // Compile the workspace and load it, ready to run or step through
+  const load = (): Session | null => {
+    reset();
+    scriptTurtleRef.current = null;
+
+    const source = getWorkspaceState();
+    if (!source) return null;
+
+    let program: CompiledProgram;
+    try {
+      program = compile(source);
+    } catch (error) {
+      showError(error, null);
+      return null;
+    }
+
+    const turtle = { ...HOME };
+    const vm = new LogoVM(createPrimitives(createCanvasTurtle(turtle)));
+    vm.load(program.memory, program.entry);
+
+    const session = { debug: new LogoDebugger(vm, program, getBlockTree(source)), turtle };
+    sessionRef.current = session;
+    return session;
+  };
+
+  // Run a frame's worth of blocks at a time until the program ends, hits a
+  // breakpoint, or is paused
+  const runFrames = (session: Session) => {
+    const delay = SPEEDS[speed];
+    let last = performance.now() - delay;
+    setRunState('running');
+
+    const runFrame = (time: number) => {
+      frameRef.current = null;
+      if (sessionRef.current !== session) return;
+
+      let maxBlocks = Infinity;
+      if (delay > 0) {
+        maxBlocks = Math.floor((time - last) / delay);
+        last += maxBlocks * delay;
+      }
+      session.debug.breakpoints = new Set(getBreakpoints ? getBreakpoints() : []);
+
+      let reason;
+      try {
+        reason = session.debug.run(INSTRUCTIONS_PER_FRAME, maxBlocks);
+      } catch (error) {
+        fail(session, error);
+        return;
+      }
+
+      if (reason === 'done') {
+        setShip({ ...session.turtle });
+        stop();
+      } else if (reason === 'breakpoint') {
+        setRunState('paused');
+        showSession(session);
+      } else {
+        showSession(session);
+        frameRef.current = requestAnimationFrame(runFrame);
+      }
+    };
+
+    frameRef.current = requestAnimationFrame(runFrame);
+  };
+
+  const run = () => {
+    const session = runState === 'paused' ? sessionRef.current : load();
+    if (session) runFrames(session);
+  };
+
+  const pause = () => {
+    cancelFrame();
+    setRunState('paused');
+    if (sessionRef.current) showSession(sessionRef.current);
+  };
+
+  // Run one instruction or one block, the first step loads the program
+  const step = (byBlock: boolean) => {
+    let session = sessionRef.current;
+    if (!session) {
+      session = load();
+      if (!session) return;
+      setRunState('paused');
+      showSession(session);
+      return;
+    }
+
+    try {
+      if (byBlock) {
+        session.debug.stepBlock();
+      } else {
+        session.debug.stepInstruction();
+      }
+    } catch (error) {
+      fail(session, error);
+      return;
+    }
+
+    if (session.debug.vm.status === 'done') {
+      setShip({ ...session.turtle });
+      stop();
+    } else {
+      showSession(session);
+    }
+  };
+
+  // Sprite actions draw straight away, in the order they come
+  useImperativeHandle(ref, () => ({
+    reset: () => {
+      reset();
+      const state = { ...HOME };
+      scriptTurtleRef.current = { state, turtle: createCanvasTurtle(state) };
+    },
+    applySpriteAction: ({ name, args }) => {
+      if (!scriptTurtleRef.current) return;
+      const { state, turtle } = scriptTurtleRef.current;
+      const [value] = args;
+
+      switch (name) {
+        case 'forward':
+          turtle.forward(Number(value));
+          break;
+        case 'back':
+          turtle.forward(-Number(value));
+          break;
+        case 'right':
+          turtle.right(Number(value));
+          break;
+        case 'left':
+          turtle.right(-Number(value));
+          break;
+        case 'penUp':
+          turtle.setPenDown(false);
+          break;
+        case 'penDown':
+          turtle.setPenDown(true);
+          break;
+        case 'setPenColour':
+          turtle.setPenColour(String(value));
+          break;
+        case 'home':
+          turtle.home();
+          break;
+        case 'clear':
+          turtle.clear();
+          break;
+      }
+      setShip({ ...state });
+    }
+  }));
+
+  const costumeImage = COSTUMES.find(c => c.id === costume)?.image || COSTUMES[0].image;
+
+  return (
+    <div className={styles.stagePanel}>
+      {snapshot && <DebuggerPanel snapshot={snapshot} />}
+
+      <div className={styles.stageColumn}>
+        <div className={styles.controls}>
+          {runState === 'running' ? (
+            <button className={styles.runButton} onClick={pause}>
+              Pause
+            </button>
+          ) : (
+            <button className={styles.runButton} onClick={run}>
+              {runState === 'paused' ? 'Continue' : 'Run'}
+            </button>
+          )}
+          <button
+            className={styles.controlButton}
+            onClick={() => step(false)}
+            disabled={runState === 'running'}
+            title="Run one instruction"
+          >
+            Step
+          </button>
+          <button
+            className={styles.controlButton}
+            onClick={() => step(true)}
+            disabled={runState === 'running'}
+            title="Run one block"
+          >
+            Step block
+          </button>
+          {runState === 'stopped' ? (
+            <button className={styles.controlButton} onClick={reset}>
+              Reset
+            </button>
+          ) : (
+            <button className={styles.stopButton} onClick={stop}>
+              Stop
+            </button>
+          )}
+        </div>
+
+        <div className={styles.controls}>
+          <select
+            className={styles.select}
+            value={speed}
+            onChange={(e) => setSpeed(e.target.value as Speed)}
+            disabled={runState === 'running'}
+            title="Speed"
+          >
+            <option value="slow">Slow</option>
+            <option value="normal">Normal</option>
+            <option value="fast">Fast</option>
+          </select>
+          <select
+            className={styles.select}
+            value={costume}
+            onChange={(e) => setCostume(e.target.value)}
+            title="Costume"
+          >
+            {COSTUMES.map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className={styles.stage}>
+          <img src="/images/backdrop-1.svg" alt="" className={styles.backdrop} />
+          <canvas
+            ref={canvasRef}
+            width={STAGE_WIDTH}
+            height={STAGE_HEIGHT}
+            className={styles.canvas}
+          />
+          <img
+            src={costumeImage}
+            alt="Turtle"
+            className={styles.ship}
+            style={{
+              left: `${((STAGE_WIDTH / 2 + ship.x) / STAGE_WIDTH) * 100}%`,
+              top: `${((STAGE_HEIGHT / 2 - ship.y) / STAGE_HEIGHT) * 100}%`,
+              transform: `translate(-50%, -50%) rotate(${ship.heading}deg)`
+            }}
+          />
+        </div>
+
+        {message && <p className={styles.error}>{message}</p>}
+      </div>
+    </div>
+  );
+});
+
+TurtleStage.displayName = 'TurtleStage';
+
+export default TurtleStage;
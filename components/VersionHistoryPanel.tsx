@@ -0,0 +1,279 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styles from '@styles/VersionHistoryPanel.module.css';
+import { getProjectVersions, ProjectVersion } from '../lib/projects';
+import { registerTurtleBlocks } from '../lib/turtleBlocks';
+
+interface VersionHistoryPanelProps {
+  projectId: string;
+  refreshKey?: number; // Changed by the parent when a new version was taken
+  canRestore: boolean;
+  getCurrentXml: () => string;
+  onRestore: (version: ProjectVersion) => Promise<void>;
+  onClose: () => void;
+}
+
+interface BlockSummary {
+  type: string;
+  signature: string;
+}
+
+interface WorkspaceDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+const REASON_LABELS: Record<ProjectVersion['reason'], string> = {
+  save: 'Saved',
+  auto: 'Autosnapshot',
+  restore: 'Restored'
+};
+
+// Describe every block in a Blockly XML program by its ID
+const summarizeBlocks = (xml: string): Map<string, BlockSummary> => {
+  const blocks = new Map<string, BlockSummary>();
+  if (!xml) return blocks;
+
+  const dom = new DOMParser().parseFromString(xml, 'text/xml');
+  Array.from(dom.getElementsByTagName('block')).forEach(block => {
+    const id = block.getAttribute('id');
+    if (!id) return;
+
+    const type = block.getAttribute('type') || 'unknown';
+    const parts = [type];
+    Array.from(block.children).forEach(child => {
+      if (child.tagName === 'field') {
+        parts.push(`${child.getAttribute('name')}=${child.textContent}`);
+      } else if (child.tagName === 'mutation') {
+        parts.push(new XMLSerializer().serializeToString(child));
+      }
+    });
+
+    // Moving a block into another stack counts as a change
+    const parent = block.parentElement?.closest('block');
+    parts.push(`parent=${parent?.getAttribute('id') || ''}`);
+
+    blocks.set(id, { type, signature: parts.join('|') });
+  });
+
+  return blocks;
+};
+
+// Compare a version with the current program, listing block types
+const diffWorkspaces = (versionXml: string, currentXml: string): WorkspaceDiff => {
+  const versionBlocks = summarizeBlocks(versionXml);
+  const currentBlocks = summarizeBlocks(currentXml);
+  const diff: WorkspaceDiff = { added: [], removed: [], changed: [] };
+
+  currentBlocks.forEach((block, id) => {
+    const versionBlock = versionBlocks.get(id);
+    if (!versionBlock) {
+      diff.added.push(block.type);
+    } else if (versionBlock.signature !== block.signature) {
+      diff.changed.push(block.type);
+    }
+  });
+  versionBlocks.forEach((block, id) => {
+    if (!currentBlocks.has(id)) diff.removed.push(block.type);
+  });
+
+  return diff;
+};
+
+// "controls_if ×2, math_number"
+const describeBlockTypes = (types: string[]) => {
+  const counts = new Map<string, number>();
+  types.forEach(type => counts.set(type, (counts.get(type) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([type, count]) => (count > 1 ? `${type} ×${count}` : type))
+    .join(', ');
+};
+
+// Read-only Blockly workspace showing a version's program
+const VersionPreview: React.FC<{ xml: string }> = ({ xml }) => {
+  const previewDiv = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let previewWorkspace: any = null;
+    let cancelled = false;
+
+    const showPreview = async () => {
+      const Blockly = await import('blockly');
+      await import('blockly/blocks');
+      registerTurtleBlocks(Blockly);
+      if (cancelled || !previewDiv.current) return;
+
+      previewWorkspace = Blockly.inject(previewDiv.current, {
+        readOnly: true,
+        renderer: 'geras',
+        zoom: { controls: true, wheel: true, startScale: 0.7 },
+        move: { scrollbars: true, drag: true, wheel: true }
+      });
+
+      try {
+        if (xml) {
+          Blockly.Xml.domToWorkspace(Blockly.utils.xml.textToDom(xml), previewWorkspace);
+        }
+        previewWorkspace.scrollCenter();
+      } catch (error) {
+        console.error('Error loading version preview:', error);
+      }
+    };
+
+    showPreview();
+
+    return () => {
+      cancelled = true;
+      if (previewWorkspace) {
+        previewWorkspace.dispose();
+      }
+    };
+  }, [xml]);
+
+  return <div ref={previewDiv} className={styles.preview}></div>;
+};
+
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  projectId,
+  refreshKey = 0,
+  canRestore,
+  getCurrentXml,
+  onRestore,
+  onClose
+}) => {
+  const [versions, setVersions] = useState<ProjectVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedVersion, setSelectedVersion] = useState<ProjectVersion | null>(null);
+  const [diff, setDiff] = useState<WorkspaceDiff | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Load the history, again whenever a new version was taken
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    getProjectVersions(projectId).then(projectVersions => {
+      if (cancelled) return;
+      setVersions(projectVersions);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, refreshKey]);
+
+  // Compare the selected version with what's in the workspace now
+  useEffect(() => {
+    if (!selectedVersion) {
+      setDiff(null);
+      return;
+    }
+
+    try {
+      setDiff(diffWorkspaces(selectedVersion.blocklyXml, getCurrentXml()));
+    } catch (error) {
+      console.error('Error comparing versions:', error);
+      setDiff(null);
+    }
+  }, [selectedVersion, getCurrentXml]);
+
+  const handleRestore = async () => {
+    if (!selectedVersion) return;
+
+    try {
+      setIsRestoring(true);
+      await onRestore(selectedVersion);
+      setSelectedVersion(null);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.panelHeader}>
+        <h3>Version history</h3>
+        <button className={styles.closeButton} onClick={onClose}>
+          &times;
+        </button>
+      </div>
+
+      {selectedVersion ? (
+        <div className={styles.details}>
+          <button className={styles.backButton} onClick={() => setSelectedVersion(null)}>
+            &larr; All versions
+          </button>
+          <div className={styles.versionMeta}>
+            <strong>{selectedVersion.createdAt.toDate().toLocaleString()}</strong>
+            <span>{REASON_LABELS[selectedVersion.reason]} by {selectedVersion.authorName}</span>
+          </div>
+
+          <VersionPreview xml={selectedVersion.blocklyXml} />
+
+          {diff && (
+            <div className={styles.diff}>
+              <h4>Compared with the current workspace</h4>
+              {diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 ? (
+                <p>No differences.</p>
+              ) : (
+                <ul>
+                  {diff.added.length > 0 && (
+                    <li className={styles.diffAdded}>
+                      {diff.added.length} added since: {describeBlockTypes(diff.added)}
+                    </li>
+                  )}
+                  {diff.removed.length > 0 && (
+                    <li className={styles.diffRemoved}>
+                      {diff.removed.length} removed since: {describeBlockTypes(diff.removed)}
+                    </li>
+                  )}
+                  {diff.changed.length > 0 && (
+                    <li className={styles.diffChanged}>
+                      {diff.changed.length} changed since: {describeBlockTypes(diff.changed)}
+                    </li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {canRestore && (
+            <button
+              className={styles.restoreButton}
+              onClick={handleRestore}
+              disabled={isRestoring}
+            >
+              {isRestoring ? 'Restoring...' : 'Restore this version for everyone'}
+            </button>
+          )}
+        </div>
+      ) : loading ? (
+        <p className={styles.emptyMessage}>Loading versions...</p>
+      ) : versions.length === 0 ? (
+        <p className={styles.emptyMessage}>No versions yet. Versions are taken when you save and every few minutes while you work.</p>
+      ) : (
+        <ul className={styles.versionList}>
+          {versions.map(version => (
+            <li key={version.id}>
+              <button className={styles.versionItem} onClick={() => setSelectedVersion(version)}>
+                {version.thumbnail ? (
+                  <img src={version.thumbnail} alt="" className={styles.thumbnail} />
+                ) : (
+                  <div className={styles.thumbnail}></div>
+                )}
+                <div className={styles.versionMeta}>
+                  <strong>{version.createdAt.toDate().toLocaleString()}</strong>
+                  <span>{REASON_LABELS[version.reason]} by {version.authorName}</span>
+                  <span>{version.blockCount} block{version.blockCount === 1 ? '' : 's'}</span>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
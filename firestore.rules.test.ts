@@ -0,0 +1,236 @@
+// Firestore security rules, run against the emulator with `npm run test:rules`
+
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+
+let testEnv: RulesTestEnvironment;
+
+// alice owns the project and created the room, bob edits, carol watches and
+// mallory has nothing to do with either
+const db = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-blockly',
+    firestore: { rules: fs.readFileSync(path.join(__dirname, 'firestore.rules'), 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const admin = context.firestore();
+    await setDoc(doc(admin, 'projects/private'), {
+      name: 'Squares',
+      createdBy: 'alice',
+      isPublic: false,
+      blocklyXml: '<xml></xml>',
+      collaborators: [
+        { userId: 'alice', email: 'alice@example.com', role: 'owner' },
+        { userId: 'bob', email: 'bob@example.com', role: 'editor' },
+        { userId: 'carol', email: 'carol@example.com', role: 'viewer' },
+      ],
+      memberRoles: { alice: 'owner', bob: 'editor', carol: 'viewer' },
+    });
+    await setDoc(doc(admin, 'projects/legacy'), {
+      name: 'Old squares',
+      createdBy: 'alice',
+      isPublic: true,
+      blocklyXml: '<xml></xml>',
+      collaborators: [
+        { userId: 'alice', email: 'alice@example.com', role: 'owner' },
+        { userId: 'bob', email: 'bob@example.com', role: 'editor' },
+      ],
+    });
+    await setDoc(doc(admin, 'projects/private/versions/v1'), {
+      createdBy: 'alice',
+      blocklyXml: '<xml></xml>',
+    });
+    await setDoc(doc(admin, 'rooms/room_1'), {
+      roomId: 'room_1',
+      name: 'Class room',
+      createdBy: 'alice',
+      userIds: ['alice'],
+      collaborationLevel: 'guided',
+    });
+    await setDoc(doc(admin, 'rooms/room_1/users/alice'), { id: 'alice', isCreator: true });
+    await setDoc(doc(admin, 'rooms/room_1/users/bob'), { id: 'bob' });
+  });
+});
+
+describe('projects', () => {
+  it('are only readable by their collaborators', async () => {
+    await assertSucceeds(getDoc(doc(db('carol'), 'projects/private')));
+    await assertFails(getDoc(doc(db('mallory'), 'projects/private')));
+    await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'projects/private')));
+  });
+
+  it('can be changed by editors but not viewers or strangers', async () => {
+    await assertSucceeds(updateDoc(doc(db('bob'), 'projects/private'), { blocklyXml: '<xml>1</xml>' }));
+    await assertFails(updateDoc(doc(db('carol'), 'projects/private'), { blocklyXml: '<xml>2</xml>' }));
+    await assertFails(updateDoc(doc(db('mallory'), 'projects/private'), { blocklyXml: '<xml>3</xml>' }));
+  });
+
+  it('keep their sharing settings for the owner', async () => {
+    await assertFails(updateDoc(doc(db('bob'), 'projects/private'), { isPublic: true }));
+    await assertFails(
+      updateDoc(doc(db('bob'), 'projects/private'), { 'memberRoles.mallory': 'editor' })
+    );
+    await assertFails(deleteDoc(doc(db('bob'), 'projects/private')));
+    await assertFails(
+      updateDoc(doc(db('bob'), 'projects/private'), { collaborationLevel: 'independent' })
+    );
+    await assertSucceeds(
+      updateDoc(doc(db('alice'), 'projects/private'), { collaborationLevel: 'independent' })
+    );
+    await assertSucceeds(updateDoc(doc(db('alice'), 'projects/private'), { isPublic: true }));
+    await assertSucceeds(deleteDoc(doc(db('alice'), 'projects/private')));
+  });
+});
+
+describe('projects created before memberRoles', () => {
+  const alice = { userId: 'alice', email: 'alice@example.com', role: 'owner' };
+  const bob = { userId: 'bob', email: 'bob@example.com', role: 'editor' };
+  const mallory = { userId: 'mallory', email: 'mallory@example.com', role: 'viewer' };
+
+  it('get memberRoles from their creator and nobody else', async () => {
+    const memberRoles = { alice: 'owner', bob: 'editor' };
+
+    await assertFails(updateDoc(doc(db('bob'), 'projects/legacy'), { memberRoles }));
+    await assertSucceeds(updateDoc(doc(db('alice'), 'projects/legacy'), { memberRoles }));
+  });
+
+  it('can be joined and left once they have them', async () => {
+    await assertFails(
+      updateDoc(doc(db('mallory'), 'projects/legacy'), {
+        collaborators: [alice, bob, mallory],
+        memberRoles: { alice: 'owner', bob: 'editor', mallory: 'viewer' },
+      })
+    );
+
+    await updateDoc(doc(db('alice'), 'projects/legacy'), {
+      memberRoles: { alice: 'owner', bob: 'editor' },
+    });
+
+    await assertSucceeds(
+      updateDoc(doc(db('mallory'), 'projects/legacy'), {
+        collaborators: [alice, bob, mallory],
+        memberRoles: { alice: 'owner', bob: 'editor', mallory: 'viewer' },
+      })
+    );
+    await assertSucceeds(
+      updateDoc(doc(db('bob'), 'projects/legacy'), {
+        collaborators: [alice, mallory],
+        memberRoles: { alice: 'owner', mallory: 'viewer' },
+      })
+    );
+  });
+});
+
+describe('project versions', () => {
+  it('are only readable by collaborators', async () => {
+    await assertSucceeds(getDocs(collection(db('carol'), 'projects/private/versions')));
+    await assertFails(getDocs(collection(db('mallory'), 'projects/private/versions')));
+  });
+
+  it('are taken by editors in their own name', async () => {
+    const version = (uid: string, createdBy: string) =>
+      setDoc(doc(db(uid), `projects/private/versions/by-${uid}`), { createdBy, blocklyXml: '' });
+
+    await assertSucceeds(version('bob', 'bob'));
+    await assertFails(version('bob', 'alice'));
+    await assertFails(version('carol', 'carol'));
+    await assertFails(version('mallory', 'mallory'));
+  });
+
+  it('never change, and only the owner deletes them', async () => {
+    await assertFails(updateDoc(doc(db('alice'), 'projects/private/versions/v1'), { blocklyXml: '' }));
+    await assertFails(deleteDoc(doc(db('bob'), 'projects/private/versions/v1')));
+    await assertSucceeds(deleteDoc(doc(db('alice'), 'projects/private/versions/v1')));
+  });
+});
+
+describe('rooms', () => {
+  it('are only readable by their creator and members', async () => {
+    await assertSucceeds(getDoc(doc(db('alice'), 'rooms/room_1')));
+    await assertSucceeds(getDoc(doc(db('bob'), 'rooms/room_1')));
+    await assertFails(getDoc(doc(db('mallory'), 'rooms/room_1')));
+    await assertFails(getDocs(collection(db('mallory'), 'rooms/room_1/users')));
+  });
+
+  it('can be looked up when they do not exist', async () => {
+    await assertSucceeds(getDoc(doc(db('mallory'), 'rooms/room_missing')));
+  });
+
+  it('keep their settings for the creator', async () => {
+    await assertSucceeds(updateDoc(doc(db('bob'), 'rooms/room_1'), { userIds: ['alice', 'bob'] }));
+    await assertFails(updateDoc(doc(db('bob'), 'rooms/room_1'), { collaborationLevel: 'collaborative' }));
+    await assertFails(updateDoc(doc(db('mallory'), 'rooms/room_1'), { userIds: ['mallory'] }));
+    await assertSucceeds(
+      updateDoc(doc(db('alice'), 'rooms/room_1'), { collaborationLevel: 'collaborative' })
+    );
+  });
+
+  it('do not let users add themselves as members', async () => {
+    await assertFails(setDoc(doc(db('mallory'), 'rooms/room_1/users/mallory'), { id: 'mallory' }));
+    await assertFails(updateDoc(doc(db('bob'), 'rooms/room_1/users/bob'), { name: 'Bob' }));
+    await assertFails(deleteDoc(doc(db('bob'), 'rooms/room_1/users/alice')));
+    await assertSucceeds(setDoc(doc(db('alice'), 'rooms/room_1/users/mallory'), { id: 'mallory' }));
+  });
+
+  it('can be created with the creator as their first member', async () => {
+    const creator = db('dave');
+    const batch = writeBatch(creator);
+    batch.set(doc(creator, 'rooms/room_2'), { createdBy: 'dave', userIds: ['dave'] });
+    batch.set(doc(creator, 'rooms/room_2/users/dave'), { id: 'dave', isCreator: true });
+    await assertSucceeds(batch.commit());
+
+    await assertFails(setDoc(doc(db('mallory'), 'rooms/room_3/users/mallory'), { id: 'mallory' }));
+  });
+});
+
+describe('WebRTC passwords', () => {
+  it('are only for those who may change the room', async () => {
+    await assertSucceeds(setDoc(doc(db('bob'), 'roomSecrets/project_private'), { password: 'secret' }));
+    await assertSucceeds(getDoc(doc(db('alice'), 'roomSecrets/project_private')));
+    await assertFails(getDoc(doc(db('carol'), 'roomSecrets/project_private')));
+    await assertFails(getDoc(doc(db('mallory'), 'roomSecrets/project_private')));
+
+    await assertSucceeds(setDoc(doc(db('bob'), 'roomSecrets/room_1'), { password: 'secret' }));
+    await assertFails(getDoc(doc(db('mallory'), 'roomSecrets/room_1')));
+  });
+
+  it('never change once made', async () => {
+    await assertSucceeds(setDoc(doc(db('alice'), 'roomSecrets/room_1'), { password: 'secret' }));
+    await assertFails(setDoc(doc(db('bob'), 'roomSecrets/room_1'), { password: 'mine' }));
+  });
+});
+
+describe('user documents', () => {
+  it('are only written by their user', async () => {
+    await assertSucceeds(setDoc(doc(db('bob'), 'users/bob'), { email: 'bob@example.com' }));
+    await assertFails(setDoc(doc(db('mallory'), 'users/bob'), { email: 'mallory@example.com' }));
+    await assertFails(getDocs(collection(db('mallory'), 'users/bob/rooms')));
+  });
+});
@@ -0,0 +1,49 @@
+// Debugger breakpoints, toggled from the block context menu. They belong to
+// whoever set them, so they're kept per workspace here rather than in the
+// shared blocks
+
+const breakpoints = new WeakMap<any, Set<string>>();
+
+const getSet = (workspace: any) => {
+  let set = breakpoints.get(workspace);
+  if (!set) {
+    set = new Set();
+    breakpoints.set(workspace, set);
+  }
+  return set;
+};
+
+// Block IDs with breakpoints, blocks deleted since are left out
+export const getBreakpoints = (workspace: any): string[] =>
+  Array.from(getSet(workspace)).filter((blockId) => workspace.getBlockById(blockId));
+
+export const hasBreakpoint = (block: any) => getSet(block.workspace).has(block.id);
+
+export const toggleBreakpoint = (block: any) => {
+  const set = getSet(block.workspace);
+  const enabled = !set.has(block.id);
+  if (enabled) {
+    set.add(block.id);
+  } else {
+    set.delete(block.id);
+  }
+  // Outlined in red, see blockly-custom.css
+  block.getSvgRoot()?.classList.toggle('blocklyBreakpoint', enabled);
+};
+
+// Add the context menu item, once per page
+export const registerBreakpointMenu = (Blockly: any) => {
+  const registry = Blockly.ContextMenuRegistry.registry;
+  if (registry.getItem('toggleBreakpoint')) return;
+
+  registry.register({
+    id: 'toggleBreakpoint',
+    scopeType: Blockly.ContextMenuRegistry.ScopeType.BLOCK,
+    displayText: (scope: any) =>
+      hasBreakpoint(scope.block) ? 'Remove breakpoint' : 'Add breakpoint',
+    preconditionFn: (scope: any) =>
+      scope.block.isShadow() || scope.block.workspace.isFlyout ? 'hidden' : 'enabled',
+    callback: (scope: any) => toggleBreakpoint(scope.block),
+    weight: 200,
+  });
+};
@@ -0,0 +1,152 @@
+// Runs the workspace's generated JavaScript in a Web Worker, so programs
+// can't touch the page and one that never ends can be stopped.
+//
+// The worker and the page talk in messages: the program's print, prompt and
+// turtle calls come out as RunnerMessages, and prompt answers go back in.
+// Prompts can't block inside a worker, so programs are generated as async
+// code that awaits them (see createRunGenerator). Loops and procedures
+// count down a budget through INFINITE_LOOP_TRAP, and a timeout stops
+// programs that are stuck some other way.
+
+// Loop iterations and procedure calls a program gets
+export const LOOP_BUDGET = 1000000;
+
+// Milliseconds a program can run, time spent waiting for prompts aside
+export const RUN_TIMEOUT = 10000;
+
+// Turtle calls, e.g. turtle.forward(10) in the generated code
+export interface SpriteAction {
+  name: string;
+  args: (number | string)[];
+}
+
+// Page to worker
+export type RunnerRequest =
+  | { type: 'run'; code: string; loopBudget: number }
+  | { type: 'answer'; id: number; value: string | null };
+
+// Worker to page
+export type RunnerMessage =
+  | { type: 'print'; text: string }
+  | { type: 'prompt'; id: number; message: string }
+  | { type: 'sprite'; action: SpriteAction }
+  | { type: 'done' }
+  | { type: 'error'; message: string; blockId: string | null };
+
+export interface RunHandlers {
+  onPrint: (text: string) => void;
+  onPrompt: (message: string) => Promise<string | null>; // Null when cancelled
+  onSpriteAction: (action: SpriteAction) => void;
+  onDone: () => void;
+  onError: (message: string, blockId: string | null) => void; // blockId of a loop that ran out
+}
+
+// A JavaScript generator like Blockly's, with prompts and procedures made
+// async and loops that count against the budget
+export const createRunGenerator = (BlocklyJS: any) => {
+  const { javascriptGenerator, JavascriptGenerator, Order } = BlocklyJS;
+  const generator = new JavascriptGenerator();
+  Object.assign(generator.forBlock, javascriptGenerator.forBlock);
+  generator.INFINITE_LOOP_TRAP = 'checkBudget(%1);\n';
+  // Names the worker defines, so variables and procedures don't shadow them
+  generator.addReservedWords('turtle,checkBudget');
+
+  const awaitPrompt = (block: any, gen: any) => {
+    const [code] = javascriptGenerator.forBlock.text_prompt_ext.call(block, block, gen);
+    return [`(${code.replace('window.prompt(', 'await window.prompt(')})`, Order.ATOMIC];
+  };
+  generator.forBlock.text_prompt_ext = awaitPrompt;
+  generator.forBlock.text_prompt = awaitPrompt;
+
+  const defineAsync = (type: string) => (block: any, gen: any) => {
+    javascriptGenerator.forBlock[type].call(block, block, gen);
+    const key = '%' + gen.getProcedureName(block.getFieldValue('NAME'));
+    gen.definitions_[key] = gen.definitions_[key].replace(/^function /m, 'async function ');
+    return null;
+  };
+  generator.forBlock.procedures_defnoreturn = defineAsync('procedures_defnoreturn');
+  generator.forBlock.procedures_defreturn = defineAsync('procedures_defreturn');
+
+  generator.forBlock.procedures_callreturn = (block: any, gen: any) => {
+    const [code] = javascriptGenerator.forBlock.procedures_callreturn.call(block, block, gen);
+    return [`(await ${code})`, Order.ATOMIC];
+  };
+  generator.forBlock.procedures_callnoreturn = (block: any, gen: any) =>
+    'await ' + javascriptGenerator.forBlock.procedures_callnoreturn.call(block, block, gen);
+
+  return generator;
+};
+
+// Start a program, returns a function that stops it
+export function runCode(code: string, handlers: RunHandlers): () => void {
+  const worker = new Worker(new URL('./codeRunner.worker.ts', import.meta.url));
+  let finished = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let remaining = RUN_TIMEOUT;
+  let startedAt = 0;
+
+  const finish = () => {
+    finished = true;
+    pauseTimer();
+    worker.terminate();
+  };
+
+  const startTimer = () => {
+    startedAt = Date.now();
+    timer = setTimeout(() => {
+      finish();
+      handlers.onError(`Stopped after ${RUN_TIMEOUT / 1000} seconds`, null);
+    }, remaining);
+  };
+
+  const pauseTimer = () => {
+    if (timer === null) return;
+    clearTimeout(timer);
+    timer = null;
+    remaining -= Date.now() - startedAt;
+  };
+
+  const send = (request: RunnerRequest) => worker.postMessage(request);
+
+  worker.onmessage = async (event: MessageEvent<RunnerMessage>) => {
+    if (finished) return;
+    const message = event.data;
+
+    switch (message.type) {
+      case 'print':
+        handlers.onPrint(message.text);
+        break;
+      case 'prompt': {
+        pauseTimer();
+        const value = await handlers.onPrompt(message.message);
+        if (finished) return;
+        startTimer();
+        send({ type: 'answer', id: message.id, value });
+        break;
+      }
+      case 'sprite':
+        handlers.onSpriteAction(message.action);
+        break;
+      case 'done':
+        finish();
+        handlers.onDone();
+        break;
+      case 'error':
+        finish();
+        handlers.onError(message.message, message.blockId);
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    if (finished) return;
+    finish();
+    handlers.onError(event.message || 'The program crashed', null);
+  };
+
+  startTimer();
+  send({ type: 'run', code, loopBudget: LOOP_BUDGET });
+
+  return finish;
+}
@@ -0,0 +1,82 @@
+// Worker side of lib/codeRunner.ts: runs one program and posts what it does
+
+import type { RunnerMessage, RunnerRequest } from './codeRunner';
+
+const worker = self as unknown as Worker;
+
+// What the generated code can call on `turtle`, see lib/turtleBlocks.ts
+const SPRITE_ACTIONS = [
+  'forward',
+  'back',
+  'left',
+  'right',
+  'penUp',
+  'penDown',
+  'setPenColour',
+  'home',
+  'clear',
+];
+
+// Thrown by checkBudget when the program looped too long
+class LoopBudgetError extends Error {
+  constructor(public blockId: string) {
+    super('This loop ran too many times, does it ever stop?');
+    this.name = 'LoopBudgetError';
+  }
+}
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+const post = (message: RunnerMessage) => worker.postMessage(message);
+
+const formatValue = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+
+// Prompts waiting for their answer from the page
+const answers = new Map<number, (value: string | null) => void>();
+let nextPromptId = 0;
+
+const run = async (code: string, loopBudget: number) => {
+  let budget = loopBudget;
+
+  const window = {
+    alert: (value: unknown) => post({ type: 'print', text: formatValue(value) }),
+    prompt: (message: unknown) =>
+      new Promise<string | null>((resolve) => {
+        const id = nextPromptId++;
+        answers.set(id, resolve);
+        post({ type: 'prompt', id, message: formatValue(message) });
+      }),
+  };
+
+  const turtle: Record<string, (...args: (number | string)[]) => void> = {};
+  SPRITE_ACTIONS.forEach((name) => {
+    turtle[name] = (...args) => post({ type: 'sprite', action: { name, args } });
+  });
+
+  const checkBudget = (blockId: string) => {
+    if (--budget < 0) throw new LoopBudgetError(blockId);
+  };
+
+  try {
+    const program = new AsyncFunction('window', 'turtle', 'checkBudget', code);
+    await program(window, turtle, checkBudget);
+    post({ type: 'done' });
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      blockId: error instanceof LoopBudgetError ? error.blockId : null,
+    });
+  }
+};
+
+worker.onmessage = (event: MessageEvent<RunnerRequest>) => {
+  const request = event.data;
+  if (request.type === 'run') {
+    run(request.code, request.loopBudget);
+  } else if (request.type === 'answer') {
+    answers.get(request.id)?.(request.value);
+    answers.delete(request.id);
+  }
+};
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as Blockly from 'blockly';
+import 'blockly/blocks';
+import * as Y from 'yjs';
+import { ConnectionState, setupBlocklySync, setupReconnection } from './collab';
+
+const user = { id: 'alice', name: 'Alice', color: '#3366cc' };
+
+// Edits reach the doc after Blockly fires its events and the sync layer's
+// short delays. Real time passes, the UndoManager only makes separate undo
+// steps of edits its capture timeout apart by the clock lib0 read at load
+const settle = () => new Promise(resolve => setTimeout(resolve, 700));
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('setupBlocklySync', () => {
+  it('unplugs a block when undoing the drag that plugged it in, and plugs it back on redo', async () => {
+    const workspace = new Blockly.Workspace();
+    const ydoc = new Y.Doc();
+    const cleanup = setupBlocklySync(workspace, ydoc as any, { blockly: Blockly, user });
+    const connections = ydoc.getMap('connections');
+    await settle();
+
+    const first = workspace.newBlock('text_print', 'first');
+    const second = workspace.newBlock('text_print', 'second');
+    await settle();
+
+    first.nextConnection!.connect(second.previousConnection!);
+    await settle();
+    expect(connections.get('first')).toMatchObject({ next: 'second' });
+    expect(connections.get('second')).toMatchObject({ previous: 'first' });
+
+    workspace.undo(false);
+    await settle();
+    expect(first.getNextBlock()).toBeNull();
+    expect(second.getParent()).toBeNull();
+    expect(connections.get('first')).not.toHaveProperty('next');
+
+    workspace.undo(true);
+    await settle();
+    expect(first.getNextBlock()).toBe(second);
+
+    cleanup?.();
+  });
+});
+
+describe('setupReconnection', () => {
+  // Stands in for a WebsocketProvider whose server is down
+  const createProvider = () => {
+    const listeners = new Map<string, (event?: any) => void>();
+    const provider = {
+      wsconnected: false,
+      shouldConnect: true,
+      connects: 0,
+      on: (name: string, listener: (event?: any) => void) => listeners.set(name, listener),
+      off: (name: string) => listeners.delete(name),
+      connect: () => {
+        provider.connects++;
+        listeners.get('connection-close')?.();
+      },
+      emit: (name: string, event?: any) => listeners.get(name)?.(event),
+    };
+    return provider;
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps trying while the server is down, at most a minute apart', () => {
+    vi.useFakeTimers();
+    const provider = createProvider();
+    const states: ConnectionState[] = [];
+    const { cleanup } = setupReconnection(provider, (state) => states.push(state));
+
+    const start = Date.now();
+    provider.emit('connection-close');
+    vi.advanceTimersByTime(60 * 60 * 1000);
+
+    // Each failed attempt schedules the next one
+    const delays = states.map((state, i) => state.retryAt! - (i ? states[i - 1].retryAt! : start));
+    expect(delays.slice(0, 6)).toEqual([5000, 10000, 20000, 40000, 60000, 60000]);
+    expect(states.every((state) => state.status === 'reconnecting')).toBe(true);
+    expect(provider.connects).toBeGreaterThan(55);
+
+    provider.emit('status', { status: 'connected' });
+    expect(states[states.length - 1]).toMatchObject({ status: 'connected', attempt: 0 });
+
+    cleanup();
+  });
+});
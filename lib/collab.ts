@@ -2,10 +2,15 @@
 import * as Y from "yjs";
 import { Awareness } from "y-protocols/awareness";
 import { WebsocketProvider } from "y-websocket";
+import { IndexeddbPersistence } from "y-indexeddb";
+import { WebrtcProvider } from "y-webrtc";
 
 // Type definitions for Y.js
 interface YDoc {
+  clientID: number;
   getMap(name: string): any;
+  getArray(name: string): any;
+  transact(fn: () => void, origin?: any): void;
   on(event: string, callback: Function): void;
   off(event: string, callback: Function): void;
 }
@@ -17,6 +22,80 @@ interface YWebsocketProvider {
   on(event: string, callback: Function): void;
 }
 
+// Owner of a top-level block stack, stored in the shared "stackOwners" map
+export interface StackOwner {
+  ownerId: string;
+  ownerName: string;
+  color: string;
+  open: boolean; // Open stacks can be edited by everyone
+}
+
+// Short-lived claim on a block someone is dragging or editing, stored in
+// the shared "blockLocks" map keyed by block ID. The holder sets it again
+// to renew it, and everyone times the lease from when they last saw it set
+// on their own clock, so clocks that disagree don't matter
+export interface BlockLock {
+  userId: string;
+  userName: string;
+  color: string;
+  clientId: number; // Document client of the holder, the lock ends when it disconnects
+}
+
+// How much students can touch each other's work in a room
+// independent: everyone works on their own stacks, others' are a read-only preview
+// guided: only your own stacks (or ones opened to you) plus suggestions
+// collaborative: everyone can edit everything
+export type CollaborationLevel = "independent" | "guided" | "collaborative";
+
+export const COLLABORATION_LEVELS: CollaborationLevel[] = [
+  "independent",
+  "guided",
+  "collaborative",
+];
+
+// Rooms and projects without a stored level stay the free-for-all they
+// were before levels existed
+const DEFAULT_COLLABORATION_LEVEL: CollaborationLevel = "collaborative";
+
+// A suggestion left on someone else's stack, stored in the shared "proposals" array
+// Change proposals also carry the block's shared record before and after the edit
+export interface Proposal {
+  id: string;
+  stackId: string;
+  authorId: string;
+  authorName: string;
+  text: string;
+  createdAt: number;
+  blockId?: string;
+  before?: any;
+  after?: any;
+}
+
+// The local user as seen by the sync layer
+export interface SyncUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// Shared edit token for turn-taking rooms, stored in the "editToken" map
+export interface EditTurnState {
+  enabled: boolean;
+  holder: SyncUser | null;
+  queue: SyncUser[];
+  acquiredAt: number;
+  rotateSeconds: number; // 0 disables automatic rotation
+}
+
+// Connection to the collaboration server as shown to the user
+// reconnecting: waiting for the next attempt, see setupReconnection
+// offline: the browser has no network, attempts resume when it is back online
+export interface ConnectionState {
+  status: "connected" | "reconnecting" | "offline";
+  attempt: number; // Reconnect attempts since the connection dropped
+  retryAt: number | null; // When the next attempt starts
+}
+
 // Check if we're in browser environment for Y.js operations
 const isClientSide = () => {
   return typeof window !== "undefined";
@@ -57,6 +136,7 @@ import {
   arrayRemove,
 } from "firebase/firestore";
 import { db, auth } from "./firebase";
+import { updateProjectContent, ProjectConflictError } from "./projects";
 import { onAuthStateChanged, getAuth } from "firebase/auth";
 import { debounce, throttle } from "lodash";
 // These imports are dynamically loaded at runtime
@@ -67,8 +147,27 @@ declare const Blockly: any;
 const CACHE_EXPIRY = 5 * 60 * 1000; // 5 minutes cache expiry
 const USER_STATUS_DEBOUNCE = 30 * 1000; // 30 seconds debounce for user status updates
 const USER_COUNT_UPDATE_INTERVAL = 60 * 1000; // Update user count once per minute
-const MAX_RETRY_ATTEMPTS = 3;
 const RETRY_DELAY = 5000; // 5 seconds
+const MAX_RETRY_DELAY = 60 * 1000; // Attempts go on at least once a minute
+const AUTOSAVE_DELAY = 3000; // Save once editing pauses for 3 seconds
+const BLOCK_LOCK_TIMEOUT = 10 * 1000; // Locks the holder stops renewing end after 10 seconds
+const BLOCK_LOCK_CHECK_INTERVAL = 1000; // How often locks are renewed and checked for expiry
+const WEBRTC_FALLBACK_DELAY = 10 * 1000; // Go peer-to-peer after 10 seconds without the server
+
+// Collaboration server, set NEXT_PUBLIC_WEBSOCKET_URL to use your own
+const getWebsocketUrl = (): string =>
+  process.env.NEXT_PUBLIC_WEBSOCKET_URL ||
+  (process.env.NODE_ENV === "production"
+    ? "wss://blockly-websocket-server.onrender.com"
+    : "ws://localhost:1234");
+
+// Signalling servers that introduce WebRTC peers to each other, a
+// comma-separated NEXT_PUBLIC_SIGNALING_URLS; `npm run signaling` starts one
+const getSignalingUrls = (): string[] =>
+  (process.env.NEXT_PUBLIC_SIGNALING_URLS || "ws://localhost:4444")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
 
 // Caches to reduce Firestore reads
 interface CacheEntry {
@@ -295,7 +394,8 @@ export async function getUserRooms(userId: string) {
 // Create a new room with optimized batched writes
 export async function createNewRoom(
   roomName: string,
-  userId: string
+  userId: string,
+  collaborationLevel: CollaborationLevel = DEFAULT_COLLABORATION_LEVEL
 ): Promise<string> {
   if (!userId) {
     console.error("User ID is required to create a room");
@@ -321,6 +421,7 @@ export async function createNewRoom(
       lastActivity: serverTimestamp(),
       userIds: [userId], // Array of user IDs currently in the room
       isActive: true,
+      collaborationLevel,
     });
 
     // Add user details to the room's users subcollection
@@ -358,11 +459,482 @@ export async function createNewRoom(
   }
 }
 
+// Read the collaboration level currently mirrored in the Yjs document
+export function getCollaborationLevel(ydoc: YDoc | null): CollaborationLevel {
+  const level = safeYjsOperation(
+    () => ydoc?.getMap("workspaceState").get("collaborationLevel"),
+    undefined
+  );
+  return COLLABORATION_LEVELS.includes(level) ? level : DEFAULT_COLLABORATION_LEVEL;
+}
+
+// Mirror the room's persisted level into the document if nobody has yet
+export function seedCollaborationLevel(
+  ydoc: YDoc | null,
+  level: CollaborationLevel | undefined
+) {
+  safeYjsOperation(() => {
+    const sharedWorkspaceState = ydoc?.getMap("workspaceState");
+    if (level && sharedWorkspaceState && !sharedWorkspaceState.has("collaborationLevel")) {
+      sharedWorkspaceState.set("collaborationLevel", level);
+    }
+  }, undefined);
+}
+
+// Switch a room's collaboration level for every connected client
+// The level is persisted first, on the project document for project rooms
+// and the room document otherwise, where the rules only let the owner or
+// creator change it, and mirrored into the Yjs document once saved
+export async function setCollaborationLevel(
+  ydoc: YDoc | null,
+  roomId: string,
+  level: CollaborationLevel,
+  projectId?: string
+): Promise<void> {
+  try {
+    if (projectId) {
+      await updateDoc(doc(db, "projects", projectId), { collaborationLevel: level });
+    } else {
+      const roomRef = doc(db, "rooms", roomId);
+      await updateDoc(roomRef, {
+        collaborationLevel: level,
+        lastActivity: serverTimestamp(),
+      });
+
+      clearRoomCache(roomId);
+    }
+  } catch (error) {
+    console.error("Error updating collaboration level:", error);
+    throw error;
+  }
+
+  safeYjsOperation(
+    () => ydoc?.getMap("workspaceState").set("collaborationLevel", level),
+    undefined
+  );
+}
+
+// Subscribe to collaboration level changes, returns an unsubscribe function
+export function observeCollaborationLevel(
+  ydoc: YDoc | null,
+  callback: (level: CollaborationLevel) => void
+): () => void {
+  const sharedWorkspaceState = safeYjsOperation(
+    () => ydoc?.getMap("workspaceState"),
+    null
+  );
+  if (!sharedWorkspaceState) return () => {};
+
+  const observer = (events: any) => {
+    if (events.keysChanged.has("collaborationLevel")) {
+      callback(getCollaborationLevel(ydoc));
+    }
+  };
+
+  sharedWorkspaceState.observe(observer);
+  callback(getCollaborationLevel(ydoc));
+
+  return () => sharedWorkspaceState.unobserve(observer);
+}
+
+// Read the turn-taking state from the Yjs document
+export function getEditTurn(ydoc: YDoc | null): EditTurnState {
+  const sharedEditToken = safeYjsOperation(
+    () => ydoc?.getMap("editToken"),
+    null
+  );
+
+  return {
+    enabled: !!sharedEditToken?.get("enabled"),
+    holder: sharedEditToken?.get("holder") || null,
+    queue: sharedEditToken?.get("queue") || [],
+    acquiredAt: sharedEditToken?.get("acquiredAt") || 0,
+    rotateSeconds: sharedEditToken?.get("rotateSeconds") || 0,
+  };
+}
+
+// Turn the talking-stick mode on or off, the user enabling it starts with the turn
+export function setTurnTaking(
+  ydoc: YDoc | null,
+  enabled: boolean,
+  user: SyncUser,
+  rotateSeconds: number = 0
+) {
+  if (!ydoc) return;
+
+  ydoc.transact(() => {
+    const sharedEditToken = ydoc.getMap("editToken");
+    sharedEditToken.set("enabled", enabled);
+    sharedEditToken.set("rotateSeconds", rotateSeconds);
+    sharedEditToken.set("holder", enabled ? user : null);
+    sharedEditToken.set("queue", []);
+    sharedEditToken.set("acquiredAt", Date.now());
+  });
+}
+
+// Helper to list the users currently connected through awareness
+const getConnectedUsers = (awareness: any): SyncUser[] => {
+  const users: SyncUser[] = [];
+  if (!awareness) return users;
+
+  awareness.getStates().forEach((state: any) => {
+    if (state.userId && !users.some((u) => u.id === state.userId)) {
+      users.push({ id: state.userId, name: state.name, color: state.color });
+    }
+  });
+
+  return users.sort((a, b) => a.id.localeCompare(b.id));
+};
+
+// Ask for the edit token, taking it straight away if nobody is holding it
+export function requestEditTurn(
+  ydoc: YDoc | null,
+  user: SyncUser,
+  awareness?: any
+) {
+  if (!ydoc) return;
+
+  const turn = getEditTurn(ydoc);
+  if (!turn.enabled || turn.holder?.id === user.id) return;
+
+  const holderConnected =
+    !!turn.holder &&
+    (!awareness ||
+      getConnectedUsers(awareness).some((u) => u.id === turn.holder?.id));
+
+  ydoc.transact(() => {
+    const sharedEditToken = ydoc.getMap("editToken");
+    if (!holderConnected) {
+      sharedEditToken.set("holder", user);
+      sharedEditToken.set("acquiredAt", Date.now());
+      sharedEditToken.set(
+        "queue",
+        turn.queue.filter((u) => u.id !== user.id)
+      );
+    } else if (!turn.queue.some((u) => u.id === user.id)) {
+      sharedEditToken.set("queue", [...turn.queue, user]);
+    }
+  });
+}
+
+// Hand the edit token on: to the given user, else the first in the queue,
+// else the next connected user in a stable order
+export function passEditTurn(
+  ydoc: YDoc | null,
+  to?: SyncUser,
+  awareness?: any
+) {
+  if (!ydoc) return;
+
+  const turn = getEditTurn(ydoc);
+  if (!turn.enabled) return;
+
+  let next = to || turn.queue[0] || null;
+  if (!next) {
+    const connected = getConnectedUsers(awareness);
+    const holderIndex = connected.findIndex((u) => u.id === turn.holder?.id);
+    next = connected[(holderIndex + 1) % connected.length] || turn.holder;
+  }
+
+  ydoc.transact(() => {
+    const sharedEditToken = ydoc.getMap("editToken");
+    sharedEditToken.set("holder", next);
+    sharedEditToken.set("acquiredAt", Date.now());
+    sharedEditToken.set(
+      "queue",
+      turn.queue.filter((u) => u.id !== next?.id)
+    );
+  });
+}
+
+// Subscribe to turn-taking changes, returns an unsubscribe function
+export function observeEditTurn(
+  ydoc: YDoc | null,
+  callback: (turn: EditTurnState) => void
+): () => void {
+  const sharedEditToken = safeYjsOperation(
+    () => ydoc?.getMap("editToken"),
+    null
+  );
+  if (!sharedEditToken) return () => {};
+
+  const observer = () => {
+    callback(getEditTurn(ydoc));
+  };
+
+  sharedEditToken.observe(observer);
+  callback(getEditTurn(ydoc));
+
+  return () => sharedEditToken.unobserve(observer);
+}
+
+// Restore functions of synchronized workspaces, registered by setupBlocklySync
+const workspaceRestorers = new WeakMap<any, (xml: string) => boolean>();
+
+// Replace a workspace's program with a saved snapshot. In a synchronized
+// workspace the snapshot goes through the Yjs document so every collaborator
+// gets it; returns false if the local user may not change the blocks
+export function restoreWorkspaceSnapshot(
+  workspace: any,
+  blockly: any,
+  xml: string
+): boolean {
+  const restore = workspaceRestorers.get(workspace);
+  if (restore) return restore(xml);
+
+  try {
+    workspace.clear();
+    blockly.Xml.domToWorkspace(blockly.utils.xml.textToDom(xml), workspace);
+    return true;
+  } catch (error) {
+    console.error("Error restoring workspace snapshot:", error);
+    return false;
+  }
+}
+
+// Where the autosave of a project workspace stands
+// saved: the project record has every change
+// saving: changes are waiting for the next save or being written
+// offline-unsaved: changes stay local until the connection is back
+// conflict: someone saved changes this client hasn't received yet
+export type AutosaveStatus = "saved" | "saving" | "offline-unsaved" | "conflict";
+
+// The connected editor with the lowest awareness client ID does the saving
+const isAutosaveLeader = (awareness: any): boolean => {
+  let leader: number | null = null;
+  awareness.getStates().forEach((state: any, clientId: number) => {
+    if (state.canAutosave && (leader === null || clientId < leader)) {
+      leader = clientId;
+    }
+  });
+  return leader === awareness.clientID;
+};
+
+// Shared maps holding the program, the autosave compares their contents
+const AUTOSAVE_CONTENT_MAPS = [
+  "blocks",
+  "blocksData",
+  "connections",
+  "variables",
+  "comments",
+  "procedures",
+];
+
+// Hash the shared program. Map keys are sorted because clients may hold
+// them in a different order
+const hashSharedContent = (ydoc: YDoc): number => {
+  const stringify = (value: any): string => {
+    if (Array.isArray(value)) return `[${value.map(stringify).join(",")}]`;
+    if (value && typeof value === "object") {
+      return `{${Object.keys(value)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${stringify(value[key])}`)
+        .join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "null";
+  };
+
+  const text = stringify(
+    AUTOSAVE_CONTENT_MAPS.map((name) => ydoc.getMap(name).toJSON())
+  );
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (text.charCodeAt(i) + ((hash << 5) - hash)) | 0;
+  }
+  return hash;
+};
+
+// Save a synchronized workspace to its project record while people work.
+// Every client watches for changes but only the elected one writes. The
+// shared "autosave" map records the saved revision and a hash of what was
+// saved, so each client knows whether its changes are saved, and a client
+// that missed a save can't overwrite it
+export function setupAutosave(
+  workspace: any,
+  ydoc: YDoc,
+  provider: any,
+  options: {
+    projectId: string;
+    blockly: any;
+    readOnly?: boolean;
+    onStatusChange?: (status: AutosaveStatus) => void;
+  }
+): { saveNow: () => Promise<boolean>; isLeader: () => boolean; cleanup: () => void } {
+  const { projectId, blockly, readOnly, onStatusChange } = options;
+  const awareness = provider.awareness;
+  const sharedAutosave = ydoc.getMap("autosave");
+  const contentMaps = AUTOSAVE_CONTENT_MAPS.map((name) => ydoc.getMap(name));
+
+  // Changes since the program was last compared with the saved one
+  let pendingChanges = false;
+  let conflict = false;
+  let savePromise: Promise<boolean> | null = null;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastStatus: AutosaveStatus | null = null;
+
+  const isSaved = () =>
+    sharedAutosave.get("contentHash") === hashSharedContent(ydoc);
+
+  const updateStatus = () => {
+    let status: AutosaveStatus = "saved";
+    if (savePromise) {
+      status = "saving";
+    } else if (pendingChanges) {
+      if (conflict) status = "conflict";
+      else status = provider.synced ? "saving" : "offline-unsaved";
+    }
+
+    if (status !== lastStatus) {
+      lastStatus = status;
+      if (onStatusChange) onStatusChange(status);
+    }
+  };
+
+  // A forced save skips the revision check, it's only offered to clients
+  // that are in sync with the room
+  const save = async (force: boolean): Promise<boolean> => {
+    // A client that hasn't caught up with the room would save old blocks
+    if (!provider.synced || readOnly) return false;
+
+    const contentHash = hashSharedContent(ydoc);
+    if (!force && sharedAutosave.get("contentHash") === contentHash) return true;
+
+    const xml = blockly.Xml.domToText(blockly.Xml.workspaceToDom(workspace));
+    const baseRevision = force ? undefined : sharedAutosave.get("revision");
+
+    try {
+      const project = await updateProjectContent(projectId, xml, baseRevision);
+      ydoc.transact(() => {
+        sharedAutosave.set("revision", project?.contentRevision || 0);
+        sharedAutosave.set("contentHash", contentHash);
+        sharedAutosave.set("savedAt", Date.now());
+      });
+      conflict = false;
+      return true;
+    } catch (error) {
+      // Wait for the other save to arrive through the document
+      if (error instanceof ProjectConflictError) {
+        conflict = true;
+      } else {
+        console.error("Error autosaving project:", error);
+      }
+      return false;
+    }
+  };
+
+  // Run one save at a time, the status shows "saving" meanwhile
+  const runSave = async (force = false): Promise<boolean> => {
+    while (savePromise) await savePromise;
+
+    savePromise = save(force);
+    updateStatus();
+    try {
+      const saved = await savePromise;
+      pendingChanges = !isSaved();
+      return saved;
+    } finally {
+      savePromise = null;
+      updateStatus();
+    }
+  };
+
+  // Compare once editing pauses, the leader saves what differs
+  const checkChanges = () => {
+    saveTimer = null;
+    pendingChanges = !isSaved();
+
+    if (pendingChanges && !conflict && isAutosaveLeader(awareness)) {
+      runSave().then((saved) => {
+        // Try again later if the save failed for another reason than a conflict
+        if (!saved && !conflict) scheduleCheck();
+      });
+    } else {
+      updateStatus();
+    }
+  };
+
+  const scheduleCheck = () => {
+    pendingChanges = true;
+    updateStatus();
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(checkChanges, AUTOSAVE_DELAY);
+  };
+
+  // Local edits, as they happen in the workspace
+  const changeListener = (event: any) => {
+    if (event.isUiEvent || event.type === blockly.Events.FINISHED_LOADING) {
+      return;
+    }
+    scheduleCheck();
+  };
+
+  // Everyone's edits, as they reach the document
+  const transactionListener = (transaction: any) => {
+    const changedTypes = Array.from(transaction.changedParentTypes.keys());
+    if (changedTypes.some((type) => contentMaps.includes(type))) {
+      scheduleCheck();
+    }
+  };
+
+  // A save was recorded, which also settles a conflict
+  const autosaveObserver = () => {
+    conflict = false;
+    if (!saveTimer && !savePromise) checkChanges();
+  };
+
+  // The leader may have left, or this client caught up after being offline
+  const awarenessListener = () => {
+    if (pendingChanges && !saveTimer && !savePromise) scheduleCheck();
+  };
+  const connectionListener = () => {
+    if (pendingChanges) scheduleCheck();
+    else updateStatus();
+  };
+
+  workspace.addChangeListener(changeListener);
+  ydoc.on("afterTransaction", transactionListener);
+  sharedAutosave.observe(autosaveObserver);
+  awareness.on("change", awarenessListener);
+  provider.on("sync", connectionListener);
+  provider.on("status", connectionListener);
+
+  // Viewers follow the status but never save
+  if (!readOnly) awareness.setLocalStateField("canAutosave", true);
+  updateStatus();
+
+  return {
+    // Save straight away, whoever the leader is, e.g. from the save button
+    saveNow: () => {
+      if (saveTimer) clearTimeout(saveTimer);
+      saveTimer = null;
+      return runSave(true);
+    },
+    // Whether this client is the one saving, e.g. to take timed versions once
+    isLeader: () => isAutosaveLeader(awareness),
+    cleanup: () => {
+      if (saveTimer) clearTimeout(saveTimer);
+      workspace.removeChangeListener(changeListener);
+      ydoc.off("afterTransaction", transactionListener);
+      sharedAutosave.unobserve(autosaveObserver);
+      awareness.off("change", awarenessListener);
+      provider.off("sync", connectionListener);
+      provider.off("status", connectionListener);
+      if (!readOnly) awareness.setLocalStateField("canAutosave", false);
+    },
+  };
+}
+
 // Set up collaboration in the workspace with per-block synchronization
 export function setupBlocklySync(
   workspace: any,
   ydoc: YDoc,
-  options?: { blockly: any }
+  options?: {
+    blockly: any;
+    user?: SyncUser;
+    awareness?: any;
+    readOnly?: boolean; // Viewers see changes but never write to the document
+    onUndoStateChange?: (state: { canUndo: boolean; canRedo: boolean }) => void;
+  }
 ) {
   // Use safe operation wrapper to check if Y.js operations are available
   const canUseYjs = safeYjsOperation(() => {
@@ -378,6 +950,10 @@ export function setupBlocklySync(
 
   console.log("Setting up per-block synchronization");
 
+  // Prefer the Blockly instance handed in by the component; the bundled
+  // Blockly module does not register itself as a global
+  const Blockly = options?.blockly ?? (window as any).Blockly;
+
   // Create shared data structures using safe operations
   const sharedBlocks = safeYjsOperation(() => ydoc.getMap("blocks"), null);
   const sharedBlocksData = safeYjsOperation(
@@ -392,12 +968,44 @@ export function setupBlocklySync(
     () => ydoc.getMap("workspaceState"),
     null
   );
+  const sharedVariables = safeYjsOperation(
+    () => ydoc.getMap("variables"),
+    null
+  );
+  const sharedComments = safeYjsOperation(() => ydoc.getMap("comments"), null);
+  const sharedProcedures = safeYjsOperation(
+    () => ydoc.getMap("procedures"),
+    null
+  );
+  const sharedOwners = safeYjsOperation(
+    () => ydoc.getMap("stackOwners"),
+    null
+  );
+  const sharedProposals = safeYjsOperation(
+    () => ydoc.getArray("proposals"),
+    null
+  );
+  const sharedEditToken = safeYjsOperation(
+    () => ydoc.getMap("editToken"),
+    null
+  );
+  const sharedLocks = safeYjsOperation(
+    () => ydoc.getMap("blockLocks"),
+    null
+  );
 
   if (
     !sharedBlocks ||
     !sharedBlocksData ||
     !sharedConnections ||
-    !sharedWorkspaceState
+    !sharedWorkspaceState ||
+    !sharedVariables ||
+    !sharedComments ||
+    !sharedProcedures ||
+    !sharedOwners ||
+    !sharedProposals ||
+    !sharedEditToken ||
+    !sharedLocks
   ) {
     console.error("Failed to create shared data structures");
     return;
@@ -419,7 +1027,40 @@ export function setupBlocklySync(
     };
   };
 
+  // Shadow blocks are stored with their parent, so resolve to the real block
+  const getSyncRoot = (block: any) => {
+    let current = block;
+    while (current && current.isShadow()) {
+      current = current.getParent();
+    }
+    return current;
+  };
+
+  // Helper to collect the shadow state of each input and the next connection
+  const serializeShadows = (block: any) => {
+    const shadows: any = {};
+
+    block.inputList.forEach((input: any) => {
+      const shadowState = input.connection
+        ? input.connection.getShadowState(true)
+        : null;
+      if (shadowState) {
+        shadows[input.name] = shadowState;
+      }
+    });
+
+    return {
+      inputs: shadows,
+      next: block.nextConnection
+        ? block.nextConnection.getShadowState(true)
+        : null,
+    };
+  };
+
   // Helper to serialize a block to a simple object
+  // The block state comes from Blockly's JSON serializer so mutations,
+  // icons and extra state survive the round trip. Child blocks are stored
+  // in their own records and linked through the connections map
   const serializeBlock = (block: any) => {
     if (!block) return null;
 
@@ -427,78 +1068,127 @@ export function setupBlocklySync(
       // Get normalized block position
       const position = getNormalizedCoordinates(block);
 
-      // Get basic block data
-      const blockData: any = {
+      const state = Blockly.serialization.blocks.save(block, {
+        addCoordinates: false,
+        addInputBlocks: false,
+        addNextBlocks: false,
+        saveIds: true,
+      });
+      if (!state) return null;
+
+      // Editability is derived from stack ownership on each client
+      delete state.deletable;
+      delete state.movable;
+      delete state.editable;
+
+      return {
         id: block.id,
         type: block.type,
         x: position.x,
         y: position.y,
-        fields: {},
-        inputs: {},
-        collapsed: block.isCollapsed(),
-        disabled: block.disabled,
-        deletable: block.isDeletable(),
-        movable: block.isMovable(),
-        editable: block.isEditable(),
+        state,
+        shadows: serializeShadows(block),
       };
+    } catch (error) {
+      console.error("Error serializing block:", error);
+      return null;
+    }
+  };
 
-      // Get field values
-      if (block.inputList) {
-        block.inputList.forEach((input: any) => {
-          if (input.fieldRow) {
-            input.fieldRow.forEach((field: any) => {
-              if (field.name && field.getValue) {
-                blockData.fields[field.name] = field.getValue();
-              }
-            });
-          }
-        });
-      }
+  // Helper to compare two serialized values
+  const isSameState = (a: any, b: any) => {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  };
 
-      // Handle connections
-      if (block.previousConnection) {
-        const targetBlock = block.previousConnection.targetBlock();
-        if (targetBlock) {
-          blockData.previousConnection = targetBlock.id;
-        }
+  // Helper to bring an existing block in line with its serialized state
+  const applyBlockState = (block: any, state: any) => {
+    // Mutations first, they may add or remove the inputs fields live on
+    if (typeof block.loadExtraState === "function") {
+      const currentExtraState = block.saveExtraState
+        ? block.saveExtraState()
+        : null;
+      if (!isSameState(currentExtraState, state.extraState)) {
+        block.loadExtraState(state.extraState ?? {});
       }
+    } else if (
+      typeof block.domToMutation === "function" &&
+      typeof state.extraState === "string"
+    ) {
+      const mutation = block.mutationToDom ? block.mutationToDom() : null;
+      const currentMutation = mutation ? Blockly.Xml.domToText(mutation) : null;
+      if (currentMutation !== state.extraState) {
+        block.domToMutation(Blockly.utils.xml.textToDom(state.extraState));
+      }
+    }
 
-      if (block.nextConnection) {
-        const targetBlock = block.nextConnection.targetBlock();
-        if (targetBlock) {
-          blockData.nextConnection = targetBlock.id;
-        }
+    // Set fields
+    for (const fieldName in state.fields || {}) {
+      const field = block.getField(fieldName);
+      if (field && !isSameState(field.saveState(), state.fields[fieldName])) {
+        field.loadState(state.fields[fieldName]);
       }
+    }
 
-      // Handle input connections
-      if (block.inputList) {
-        block.inputList.forEach((input: any) => {
-          if (input.connection && input.connection.targetBlock()) {
-            blockData.inputs[input.name] = input.connection.targetBlock().id;
-          }
-        });
+    // Update block properties
+    if (block.isCollapsed() !== !!state.collapsed) {
+      block.setCollapsed(!!state.collapsed);
+    }
+
+    if (block.isEnabled() !== (state.enabled !== false)) {
+      block.setEnabled(state.enabled !== false);
+    }
+
+    if (state.inline !== undefined && block.getInputsInline() !== state.inline) {
+      block.setInputsInline(state.inline);
+    }
+
+    block.data = state.data ?? null;
+
+    // Block comments are stored as an icon
+    const commentText = state.icons?.comment?.text ?? null;
+    if (block.getCommentText() !== commentText) {
+      block.setCommentText(commentText);
+    }
+  };
+
+  // Helper to restore the shadow blocks attached to a block
+  const applyShadows = (block: any, shadows: any) => {
+    if (!shadows) return;
+
+    block.inputList.forEach((input: any) => {
+      if (!input.connection) return;
+
+      const shadowState = shadows.inputs?.[input.name] ?? null;
+      if (!isSameState(input.connection.getShadowState(true), shadowState)) {
+        input.connection.setShadowState(shadowState);
       }
+    });
 
-      return blockData;
-    } catch (error) {
-      console.error("Error serializing block:", error);
-      return null;
+    if (
+      block.nextConnection &&
+      !isSameState(block.nextConnection.getShadowState(true), shadows.next)
+    ) {
+      block.nextConnection.setShadowState(shadows.next ?? null);
     }
   };
 
   // Helper to create a block from serialized data
   const deserializeBlock = (blockData: any) => {
-    if (!blockData || !workspace) return null;
+    if (!blockData || !workspace || !blockData.state) return null;
 
     try {
       // Check if block already exists
       let block = workspace.getBlockById(blockData.id);
 
-      // If block doesn't exist, create it
+      // If block doesn't exist, create it from its JSON state
       if (!block) {
-        block = workspace.newBlock(blockData.type, blockData.id);
-        block.initSvg();
-        block.render();
+        block = Blockly.serialization.blocks.append(
+          { ...blockData.state, x: blockData.x, y: blockData.y },
+          workspace,
+          { recordUndo: false }
+        );
+        applyShadows(block, blockData.shadows);
+        return block;
       }
 
       // Get current position
@@ -519,46 +1209,8 @@ export function setupBlocklySync(
         );
       }
 
-      // Set fields
-      for (const fieldName in blockData.fields) {
-        const field = block.getField(fieldName);
-        if (field && typeof field.setValue === "function") {
-          field.setValue(blockData.fields[fieldName]);
-        }
-      }
-
-      // Update block properties
-      if (
-        blockData.collapsed !== undefined &&
-        typeof block.setCollapsed === "function"
-      ) {
-        block.setCollapsed(blockData.collapsed);
-      }
-
-      if (blockData.disabled !== undefined) {
-        block.setDisabled(blockData.disabled);
-      }
-
-      if (
-        blockData.deletable !== undefined &&
-        typeof block.setDeletable === "function"
-      ) {
-        block.setDeletable(blockData.deletable);
-      }
-
-      if (
-        blockData.movable !== undefined &&
-        typeof block.setMovable === "function"
-      ) {
-        block.setMovable(blockData.movable);
-      }
-
-      if (
-        blockData.editable !== undefined &&
-        typeof block.setEditable === "function"
-      ) {
-        block.setEditable(blockData.editable);
-      }
+      applyBlockState(block, blockData.state);
+      applyShadows(block, blockData.shadows);
 
       return block;
     } catch (error) {
@@ -567,21 +1219,55 @@ export function setupBlocklySync(
     }
   };
 
-  // Helper to connect blocks based on stored connection data
-  const connectBlocks = () => {
-    try {
-      sharedConnections.forEach((connections: any, blockId: string) => {
-        const block = workspace.getBlockById(blockId);
-        if (!block) return;
+  // Helper to record which blocks are attached to a block's connections
+  // Shadow children are skipped, they are part of the parent's record
+  const serializeConnections = (block: any) => {
+    const connections: any = { inputs: {} };
 
-        // Previous connection
-        if (connections.previous) {
-          const targetBlock = workspace.getBlockById(connections.previous);
-          if (
-            targetBlock &&
-            block.previousConnection &&
-            targetBlock.nextConnection
-          ) {
+    // Previous connection
+    if (block.previousConnection && block.previousConnection.targetBlock()) {
+      connections.previous = block.previousConnection.targetBlock().id;
+    }
+
+    // Next connection
+    const nextBlock = block.nextConnection
+      ? block.nextConnection.targetBlock()
+      : null;
+    if (nextBlock && !nextBlock.isShadow()) {
+      connections.next = nextBlock.id;
+    }
+
+    // Input connections
+    if (block.inputList) {
+      block.inputList.forEach((input: any) => {
+        const targetBlock = input.connection
+          ? input.connection.targetBlock()
+          : null;
+        if (targetBlock && !targetBlock.isShadow()) {
+          connections.inputs[input.name] = targetBlock.id;
+        }
+      });
+    }
+
+    return connections;
+  };
+
+  // Helper to connect blocks based on stored connection data, in the
+  // workspace or a preview of it
+  const connectBlocks = (targetWorkspace: any = workspace) => {
+    try {
+      sharedConnections.forEach((connections: any, blockId: string) => {
+        const block = targetWorkspace.getBlockById(blockId);
+        if (!block) return;
+
+        // Previous connection
+        if (connections.previous) {
+          const targetBlock = targetWorkspace.getBlockById(connections.previous);
+          if (
+            targetBlock &&
+            block.previousConnection &&
+            targetBlock.nextConnection
+          ) {
             if (!block.previousConnection.isConnected()) {
               block.previousConnection.connect(targetBlock.nextConnection);
             }
@@ -590,7 +1276,7 @@ export function setupBlocklySync(
 
         // Next connection
         if (connections.next) {
-          const targetBlock = workspace.getBlockById(connections.next);
+          const targetBlock = targetWorkspace.getBlockById(connections.next);
           if (
             targetBlock &&
             block.nextConnection &&
@@ -606,7 +1292,7 @@ export function setupBlocklySync(
         if (connections.inputs) {
           for (const inputName in connections.inputs) {
             const targetId = connections.inputs[inputName];
-            const target = workspace.getBlockById(targetId);
+            const target = targetWorkspace.getBlockById(targetId);
             const input = block.getInput(inputName);
 
             if (target && input && input.connection) {
@@ -624,6 +1310,786 @@ export function setupBlocklySync(
     }
   };
 
+  // Helper to serialize a variable model to a simple object
+  const serializeVariable = (variable: any) => {
+    return {
+      id: variable.getId(),
+      name: variable.name,
+      type: variable.type || "",
+    };
+  };
+
+  // Helper to create or rename a local variable from serialized data
+  const applyVariable = (variableData: any) => {
+    if (!variableData) return;
+
+    try {
+      const variable = workspace.getVariableById(variableData.id);
+      if (!variable) {
+        workspace.createVariable(
+          variableData.name,
+          variableData.type,
+          variableData.id
+        );
+      } else if (variable.name !== variableData.name) {
+        workspace.renameVariableById(variableData.id, variableData.name);
+      }
+    } catch (error) {
+      console.error("Error applying variable:", error, variableData);
+    }
+  };
+
+  // Helper to remove a local variable that was deleted by another client
+  const removeVariable = (variableId: string) => {
+    const variable = workspace.getVariableById(variableId);
+    if (!variable) return;
+
+    try {
+      // Skip the confirmation dialog used by deleteVariableById, the
+      // deleting client has already confirmed it
+      workspace
+        .getVariableMap()
+        .deleteVariableInternal(
+          variable,
+          workspace.getVariableUsesById(variableId)
+        );
+    } catch (error) {
+      console.error("Error removing variable:", error, variableId);
+    }
+  };
+
+  // Helper to serialize a workspace comment to a simple object
+  const serializeComment = (comment: any) => {
+    if (!comment) return null;
+
+    const position = comment.getRelativeToSurfaceXY();
+    const size = comment.getHeightWidth();
+    return {
+      id: comment.id,
+      content: comment.getContent(),
+      x: position.x,
+      y: position.y,
+      width: size.width,
+      height: size.height,
+    };
+  };
+
+  // Helper to create or update a workspace comment from serialized data
+  const applyComment = (commentData: any) => {
+    if (!commentData) return;
+
+    try {
+      let comment = workspace.getCommentById(commentData.id);
+      if (!comment) {
+        comment = new Blockly.WorkspaceCommentSvg(
+          workspace,
+          commentData.content,
+          commentData.height,
+          commentData.width,
+          commentData.id
+        );
+        comment.initSvg();
+        comment.render();
+      }
+
+      if (comment.getContent() !== commentData.content) {
+        comment.setContent(commentData.content);
+      }
+
+      const size = comment.getHeightWidth();
+      if (
+        typeof comment.setSize === "function" &&
+        (size.width !== commentData.width || size.height !== commentData.height)
+      ) {
+        comment.setSize(commentData.width, commentData.height);
+      }
+
+      const position = comment.getRelativeToSurfaceXY();
+      if (position.x !== commentData.x || position.y !== commentData.y) {
+        comment.moveBy(commentData.x - position.x, commentData.y - position.y);
+      }
+    } catch (error) {
+      console.error("Error applying comment:", error, commentData);
+    }
+  };
+
+  // Procedure definitions expose their signature through getProcedureDef
+  const isProcedureDefinition = (block: any) => {
+    return (
+      block &&
+      !block.isInFlyout &&
+      typeof block.getProcedureDef === "function" &&
+      typeof block.saveExtraState === "function"
+    );
+  };
+
+  // Helper to serialize a procedure signature (name, parameters, statements)
+  const serializeProcedure = (block: any) => {
+    return {
+      blockId: block.id,
+      type: block.type,
+      name: block.getFieldValue("NAME"),
+      extraState: block.saveExtraState() || {},
+    };
+  };
+
+  // Helper to apply a procedure signature to its definition block,
+  // which in turn updates every caller on this client
+  const applyProcedure = (procedureData: any) => {
+    if (!procedureData) return;
+
+    try {
+      const block = workspace.getBlockById(procedureData.blockId);
+      if (!isProcedureDefinition(block)) return;
+
+      if (block.getFieldValue("NAME") !== procedureData.name) {
+        block.setFieldValue(procedureData.name, "NAME");
+      }
+      block.loadExtraState(procedureData.extraState);
+    } catch (error) {
+      console.error("Error applying procedure:", error, procedureData);
+    }
+  };
+
+  const localUser = options?.user;
+  const readOnly = !!options?.readOnly;
+
+  // The local user's own edits are written with this origin, so undo only
+  // ever reverts them and never changes made by others
+  const localEditOrigin = { userId: localUser?.id };
+  const transactLocal = (fn: () => void) => ydoc.transact(fn, localEditOrigin);
+
+  // Stacks without an owner (e.g. from older rooms) stay open to everyone
+  const canEditStack = (owner: StackOwner | undefined) => {
+    if (!owner || !localUser || owner.ownerId === localUser.id) return true;
+
+    switch (getCollaborationLevel(ydoc)) {
+      case "collaborative":
+        return true;
+      case "guided":
+        return owner.open;
+      default:
+        // Other students' work is only a preview in independent mode
+        return false;
+    }
+  };
+
+  // In independent rooms the workspace is private to the local user, stacks
+  // owned by others stay out of it and are shown in the classmates' preview
+  const isOthersPrivateStack = (rootBlockId: string) =>
+    getCollaborationLevel(ydoc) === "independent" &&
+    !canEditStack(sharedOwners.get(rootBlockId));
+
+  // Parent of each block in the shared connections, to find the stack a
+  // block belongs to before it is in the workspace
+  const getSharedParents = () => {
+    const parents = new Map<string, string>();
+    sharedConnections.forEach((connections: any, blockId: string) => {
+      if (connections.next) parents.set(connections.next, blockId);
+      Object.values(connections.inputs || {}).forEach((childId: any) => {
+        parents.set(childId, blockId);
+      });
+    });
+    return parents;
+  };
+
+  const getSharedRoot = (blockId: string, parents: Map<string, string>) => {
+    const seen = new Set<string>();
+    let rootId = blockId;
+    while (parents.has(rootId) && !seen.has(rootId)) {
+      seen.add(rootId);
+      rootId = parents.get(rootId)!;
+    }
+    return rootId;
+  };
+
+  // Helper to find the ownership record of the stack a block belongs to
+  const getStackOwner = (block: any): StackOwner | undefined => {
+    return block ? sharedOwners.get(block.getRootBlock().id) : undefined;
+  };
+
+  // Helper to claim a new top-level stack for the local user
+  const claimStack = (rootBlockId: string, inheritFrom?: StackOwner) => {
+    if (sharedOwners.has(rootBlockId)) return;
+
+    if (inheritFrom) {
+      sharedOwners.set(rootBlockId, { ...inheritFrom });
+    } else if (localUser) {
+      sharedOwners.set(rootBlockId, {
+        ownerId: localUser.id,
+        ownerName: localUser.name,
+        color: localUser.color,
+        open: false,
+      });
+    }
+  };
+
+  // In turn-taking rooms only the holder of the edit token may change blocks
+  const hasEditTurn = () => {
+    const turn = getEditTurn(ydoc);
+    return !turn.enabled || !localUser || turn.holder?.id === localUser.id;
+  };
+
+  // Helper to list the pending suggestions left on a stack
+  const getStackProposals = (rootBlockId: string): Proposal[] => {
+    return sharedProposals
+      .toArray()
+      .filter((proposal: Proposal) => proposal.stackId === rootBlockId);
+  };
+
+  // Pending change proposals for a block
+  const getBlockProposals = (blockId: string): Proposal[] => {
+    return sharedProposals
+      .toArray()
+      .filter((proposal: Proposal) => proposal.blockId === blockId && proposal.after);
+  };
+
+  // Proposed changes are previewed in a read-only workspace of their own,
+  // so they never mix with the blocks that are synced, saved or run
+  let proposalPreview: {
+    blockId: string;
+    container: HTMLDivElement;
+    list: HTMLDivElement;
+    workspace: any;
+  } | null = null;
+
+  const closeProposalPreview = () => {
+    if (!proposalPreview) return;
+    proposalPreview.workspace.dispose();
+    proposalPreview.container.remove();
+    proposalPreview = null;
+    Blockly.common.setMainWorkspace(workspace);
+  };
+
+  // Small button in the preview panel
+  const createPreviewButton = (text: string, onClick: () => void) => {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.style.marginLeft = "6px";
+    button.style.padding = "2px 8px";
+    button.style.border = "1px solid #cccccc";
+    button.style.borderRadius = "3px";
+    button.style.backgroundColor = "#ffffff";
+    button.style.fontSize = "11px";
+    button.style.cursor = "pointer";
+    button.addEventListener("click", onClick);
+    return button;
+  };
+
+  // Show the block as each proposal would leave it, one under the other
+  const renderProposalPreview = () => {
+    if (!proposalPreview) return;
+
+    const proposals = getBlockProposals(proposalPreview.blockId);
+    if (proposals.length === 0) {
+      closeProposalPreview();
+      return;
+    }
+
+    const { list, workspace: preview } = proposalPreview;
+    preview.clear();
+    list.innerHTML = "";
+
+    let y = 0;
+    proposals.forEach((proposal) => {
+      try {
+        // Without the ID, several proposals for one block can be shown
+        const { id, ...previewState } = proposal.after.state;
+        const previewBlock = Blockly.serialization.blocks.append(
+          { ...previewState, x: 10, y },
+          preview,
+          { recordUndo: false }
+        );
+        applyShadows(previewBlock, proposal.after.shadows);
+        y += previewBlock.getHeightWidth().height + 20;
+      } catch (error) {
+        console.error("Error previewing proposal:", error, proposal);
+      }
+
+      const row = document.createElement("div");
+      row.style.display = "flex";
+      row.style.alignItems = "center";
+      row.style.marginTop = "6px";
+
+      const label = document.createElement("span");
+      label.style.flex = "1";
+      label.textContent = `${proposal.authorName}: ${proposal.text}`;
+      row.appendChild(label);
+
+      // Applied as a normal local edit so the change listener syncs it
+      row.appendChild(
+        createPreviewButton("Accept", () => {
+          const block = workspace.getBlockById(proposal.blockId);
+          if (block) {
+            applyBlockState(block, proposal.after.state);
+            applyShadows(block, proposal.after.shadows);
+          }
+          removeProposal(proposal.id);
+        })
+      );
+      row.appendChild(createPreviewButton("Decline", () => removeProposal(proposal.id)));
+      list.appendChild(row);
+    });
+  };
+
+  const openProposalPreview = (blockId: string) => {
+    closeProposalPreview();
+
+    const container = document.createElement("div");
+    container.style.position = "absolute";
+    container.style.top = "8px";
+    container.style.left = "50%";
+    container.style.transform = "translateX(-50%)";
+    container.style.width = "340px";
+    container.style.padding = "8px";
+    container.style.backgroundColor = "#ffffff";
+    container.style.border = "1px solid #cccccc";
+    container.style.borderRadius = "4px";
+    container.style.boxShadow = "0 2px 5px rgba(0,0,0,0.2)";
+    container.style.fontSize = "12px";
+    container.style.zIndex = "1000";
+
+    const header = document.createElement("div");
+    header.style.display = "flex";
+    header.style.fontWeight = "bold";
+    const title = document.createElement("span");
+    title.style.flex = "1";
+    title.textContent = "Suggested changes to this block";
+    header.appendChild(title);
+    header.appendChild(createPreviewButton("Close", closeProposalPreview));
+    container.appendChild(header);
+
+    const previewDiv = document.createElement("div");
+    previewDiv.style.height = "180px";
+    previewDiv.style.marginTop = "6px";
+    container.appendChild(previewDiv);
+
+    const list = document.createElement("div");
+    container.appendChild(list);
+
+    (workspace.getInjectionDiv() || document.body).appendChild(container);
+
+    const preview = Blockly.inject(previewDiv, {
+      readOnly: true,
+      theme: workspace.getTheme(),
+      scrollbars: true,
+      zoom: { startScale: 0.8 },
+    });
+    // inject makes the preview the main workspace, the real one stays it
+    Blockly.common.setMainWorkspace(workspace);
+
+    proposalPreview = { blockId, container, list, workspace: preview };
+    renderProposalPreview();
+  };
+
+  // Others' private stacks in independent rooms, read-only in a workspace
+  // of their own and kept up to date while it is open
+  let classmatesPreview: {
+    container: HTMLDivElement;
+    title: HTMLSpanElement;
+    workspace: any;
+  } | null = null;
+  let classmatesPreviewTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const closeClassmatesPreview = () => {
+    if (classmatesPreviewTimer) clearTimeout(classmatesPreviewTimer);
+    classmatesPreviewTimer = null;
+    if (!classmatesPreview) return;
+    classmatesPreview.workspace.dispose();
+    classmatesPreview.container.remove();
+    classmatesPreview = null;
+    Blockly.common.setMainWorkspace(workspace);
+  };
+
+  const renderClassmatesPreview = () => {
+    classmatesPreviewTimer = null;
+    if (!classmatesPreview) return;
+
+    if (getCollaborationLevel(ydoc) !== "independent") {
+      closeClassmatesPreview();
+      return;
+    }
+
+    const { title, workspace: preview } = classmatesPreview;
+    const parents = getSharedParents();
+    const owners = new Set<string>();
+
+    Blockly.Events.disable();
+    try {
+      preview.clear();
+      sharedBlocksData.forEach((blockData: any, blockId: string) => {
+        const rootId = getSharedRoot(blockId, parents);
+        if (!blockData?.state || !isOthersPrivateStack(rootId)) return;
+
+        try {
+          const block = Blockly.serialization.blocks.append(
+            { ...blockData.state, x: blockData.x, y: blockData.y },
+            preview,
+            { recordUndo: false }
+          );
+          applyShadows(block, blockData.shadows);
+          owners.add(sharedOwners.get(rootId)?.ownerName || "Someone");
+        } catch (error) {
+          console.error("Error previewing block:", error, blockData);
+        }
+      });
+      connectBlocks(preview);
+
+      // Outline each stack in its owner's colour, as in guided rooms
+      preview.getTopBlocks(false).forEach((root: any) => {
+        const owner: StackOwner | undefined = sharedOwners.get(root.id);
+        const svgRoot = root.getSvgRoot ? root.getSvgRoot() : null;
+        if (owner && svgRoot) {
+          svgRoot.style.filter = `drop-shadow(0 0 2px ${owner.color}) drop-shadow(0 0 2px ${owner.color})`;
+        }
+      });
+    } finally {
+      Blockly.Events.enable();
+    }
+
+    title.textContent =
+      owners.size > 0
+        ? `Classmates' work: ${Array.from(owners).join(", ")}`
+        : "Classmates' work: nothing yet";
+  };
+
+  // Classmates type and drag often, the preview is redrawn at most this often
+  const scheduleClassmatesPreview = () => {
+    if (!classmatesPreview || classmatesPreviewTimer) return;
+    classmatesPreviewTimer = setTimeout(renderClassmatesPreview, 500);
+  };
+
+  const openClassmatesPreview = () => {
+    closeClassmatesPreview();
+
+    const container = document.createElement("div");
+    container.style.position = "absolute";
+    container.style.bottom = "8px";
+    container.style.right = "8px";
+    container.style.width = "360px";
+    container.style.padding = "8px";
+    container.style.backgroundColor = "#ffffff";
+    container.style.border = "1px solid #cccccc";
+    container.style.borderRadius = "4px";
+    container.style.boxShadow = "0 2px 5px rgba(0,0,0,0.2)";
+    container.style.fontSize = "12px";
+    container.style.zIndex = "1000";
+
+    const header = document.createElement("div");
+    header.style.display = "flex";
+    header.style.fontWeight = "bold";
+    const title = document.createElement("span");
+    title.style.flex = "1";
+    header.appendChild(title);
+    header.appendChild(createPreviewButton("Close", closeClassmatesPreview));
+    container.appendChild(header);
+
+    const previewDiv = document.createElement("div");
+    previewDiv.style.height = "240px";
+    previewDiv.style.marginTop = "6px";
+    container.appendChild(previewDiv);
+
+    (workspace.getInjectionDiv() || document.body).appendChild(container);
+
+    const preview = Blockly.inject(previewDiv, {
+      readOnly: true,
+      theme: workspace.getTheme(),
+      scrollbars: true,
+      zoom: { startScale: 0.6, wheel: true },
+    });
+    // inject makes the preview the main workspace, the real one stays it
+    Blockly.common.setMainWorkspace(workspace);
+
+    classmatesPreview = { container, title, workspace: preview };
+    renderClassmatesPreview();
+    preview.scrollCenter();
+  };
+
+  // Helper to remove a proposal once it has been accepted or declined
+  const removeProposal = (proposalId: string) => {
+    const index = sharedProposals
+      .toArray()
+      .findIndex((proposal: Proposal) => proposal.id === proposalId);
+    if (index !== -1) {
+      sharedProposals.delete(index, 1);
+    }
+  };
+
+  // Summarise which fields a proposal changes, for the owner's warning text
+  const describeProposal = (before: any, after: any) => {
+    const beforeFields = before?.state?.fields || {};
+    const afterFields = after?.state?.fields || {};
+
+    const changes = Object.keys(afterFields)
+      .filter((name) => !isSameState(beforeFields[name], afterFields[name]))
+      .map(
+        (name) =>
+          `${name}: ${JSON.stringify(beforeFields[name])} → ${JSON.stringify(
+            afterFields[name]
+          )}`
+      );
+
+    return changes.length > 0
+      ? `change ${changes.join(", ")}`
+      : "change the shape of this block";
+  };
+
+  // Pending proposal timers so a field is only proposed once editing stops
+  const pendingProposalTimers = new Map<string, any>();
+
+  // Record an edit to someone else's block as a proposal and put it back
+  const recordProposal = (block: any) => {
+    clearTimeout(pendingProposalTimers.get(block.id));
+
+    pendingProposalTimers.set(
+      block.id,
+      setTimeout(() => {
+        // Wait until the field editor has been closed
+        if (Blockly.WidgetDiv.isVisible() || Blockly.DropDownDiv.isVisible()) {
+          recordProposal(block);
+          return;
+        }
+        pendingProposalTimers.delete(block.id);
+
+        if (!localUser || !workspace.getBlockById(block.id)) return;
+
+        const before = sharedBlocksData.get(block.id);
+        const after = serializeBlock(block);
+        if (!before || !after || isSameState(before.state, after.state)) {
+          return;
+        }
+
+        sharedProposals.push([
+          {
+            id: `${localUser.id}_${Date.now()}`,
+            stackId: block.getRootBlock().id,
+            blockId: block.id,
+            authorId: localUser.id,
+            authorName: localUser.name,
+            text: describeProposal(before, after),
+            createdAt: Date.now(),
+            before,
+            after,
+          },
+        ]);
+
+        // The owner decides, so the block goes back to its shared state
+        ignoreLocalEvents = true;
+        try {
+          deserializeBlock(before);
+        } finally {
+          setTimeout(() => {
+            ignoreLocalEvents = false;
+          }, 200);
+        }
+      }, 500)
+    );
+  };
+
+  // Soft locks: a block someone is dragging or editing is unavailable to
+  // everyone else until they let go, the lock times out or they disconnect
+  const localClientId = ydoc.clientID;
+  let heldLockId: string | null = null;
+  let heldLockRenewedAt = 0;
+  let isDragging = false;
+
+  // When each lock was last set, by this client's clock. Locks already in
+  // the document get a full lease from now
+  const lockSeenAt = new Map<string, number>();
+  sharedLocks.forEach((_lock: BlockLock, blockId: string) => {
+    lockSeenAt.set(blockId, Date.now());
+  });
+
+  const isLockActive = (blockId: string, lock: BlockLock | undefined): lock is BlockLock =>
+    !!lock &&
+    Date.now() - (lockSeenAt.get(blockId) || 0) < BLOCK_LOCK_TIMEOUT &&
+    (!options?.awareness || options.awareness.getStates().has(lock.clientId));
+
+  // The lock another client holds on a block or on a block it's attached to
+  const getForeignLock = (block: any): BlockLock | null => {
+    for (let current = block; current; current = current.getParent()) {
+      const lock = sharedLocks.get(current.id);
+      if (isLockActive(current.id, lock) && lock.clientId !== localClientId) return lock;
+    }
+    return null;
+  };
+
+  const renewLock = () => {
+    if (!heldLockId || !localUser) return;
+
+    const lockId = heldLockId;
+    heldLockRenewedAt = Date.now();
+    ydoc.transact(() => {
+      sharedLocks.set(lockId, {
+        userId: localUser.id,
+        userName: localUser.name,
+        color: localUser.color,
+        clientId: localClientId,
+      });
+    });
+  };
+
+  const releaseLock = () => {
+    if (!heldLockId) return;
+
+    const lockId = heldLockId;
+    heldLockId = null;
+    ydoc.transact(() => {
+      if (sharedLocks.get(lockId)?.clientId === localClientId) {
+        sharedLocks.delete(lockId);
+      }
+      // Clear out locks left behind, e.g. by a closed tab. Their holder
+      // would have renewed them within the lease if it were still there
+      sharedLocks.forEach((_lock: BlockLock, id: string) => {
+        if (Date.now() - (lockSeenAt.get(id) || 0) > BLOCK_LOCK_TIMEOUT) {
+          sharedLocks.delete(id);
+        }
+      });
+    });
+  };
+
+  const acquireLock = (blockId: string) => {
+    if (readOnly || !localUser || heldLockId === blockId) return;
+
+    const block = workspace.getBlockById(blockId);
+    if (!block || getForeignLock(block)) return;
+
+    releaseLock();
+    heldLockId = blockId;
+    renewLock();
+  };
+
+  // Field editors and dropdowns are open while a field is being edited
+  const isEditingField = () =>
+    !!(Blockly.WidgetDiv?.isVisible() || Blockly.DropDownDiv?.isVisible());
+
+  // Blocks locked by others are dimmed
+  const lockedBlocks = new Set<any>();
+
+  // Replace the dimmed blocks and restyle every block affected
+  const setLockedBlocks = (blocks: any[]) => {
+    const affected = Array.from(lockedBlocks).concat(blocks);
+    lockedBlocks.clear();
+    blocks.forEach((block) => lockedBlocks.add(block));
+    affected.forEach((block) => {
+      const svgRoot = block.getSvgRoot ? block.getSvgRoot() : null;
+      if (svgRoot) svgRoot.style.opacity = lockedBlocks.has(block) ? "0.6" : "";
+    });
+  };
+
+  // Name tags on blocks locked by others
+  let lockLabels: SVGElement[] = [];
+
+  const renderLocks = () => {
+    lockLabels.forEach((label) => label.remove());
+    lockLabels = [];
+    const locked: any[] = [];
+
+    sharedLocks.forEach((lock: BlockLock, blockId: string) => {
+      if (!isLockActive(blockId, lock) || lock.clientId === localClientId) return;
+
+      const block = workspace.getBlockById(blockId);
+      const svgRoot = block?.getSvgRoot ? block.getSvgRoot() : null;
+      if (!svgRoot) return;
+
+      locked.push(block);
+
+      const label = document.createElementNS("http://www.w3.org/2000/svg", "g");
+      label.setAttribute("class", "collab-lock-label");
+      label.setAttribute("transform", "translate(0, -24)");
+
+      const text = `${lock.userName} is working on this`;
+      const background = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+      background.setAttribute("width", `${text.length * 7 + 16}`);
+      background.setAttribute("height", "20");
+      background.setAttribute("rx", "4");
+      background.setAttribute("fill", lock.color);
+
+      const textElement = document.createElementNS("http://www.w3.org/2000/svg", "text");
+      textElement.setAttribute("x", "8");
+      textElement.setAttribute("y", "14");
+      textElement.setAttribute("fill", "white");
+      textElement.setAttribute("font-size", "12px");
+      textElement.setAttribute("font-weight", "bold");
+      textElement.textContent = text;
+
+      label.appendChild(background);
+      label.appendChild(textElement);
+      svgRoot.appendChild(label);
+      lockLabels.push(label);
+    });
+
+    setLockedBlocks(locked);
+  };
+
+  // Lock stacks owned by other users and outline them in the owner's colour,
+  // or take them out of the workspace when they are private
+  const applyOwnership = () => {
+    const isGuided = getCollaborationLevel(ydoc) === "guided";
+
+    try {
+      const privateStacks: any[] = [];
+
+      workspace.getTopBlocks(false).forEach((root: any) => {
+        if (isOthersPrivateStack(root.id)) {
+          privateStacks.push(root);
+          return;
+        }
+
+        const owner: StackOwner | undefined = sharedOwners.get(root.id);
+        const stackEditable = canEditStack(owner);
+        const editable = stackEditable && hasEditTurn();
+        const isOwnStack = !!owner && owner.ownerId === localUser?.id;
+
+        // In guided rooms fields of other stacks stay editable, but the
+        // edits are turned into proposals for the owner
+        const canPropose = !stackEditable && isGuided && hasEditTurn();
+
+        root.getDescendants(false).forEach((block: any) => {
+          const locked = !!getForeignLock(block);
+          block.setEditable((editable || canPropose) && !locked);
+          block.setMovable(editable && !locked);
+          block.setDeletable(editable && !locked);
+        });
+
+        const svgRoot = root.getSvgRoot ? root.getSvgRoot() : null;
+        if (svgRoot) {
+          svgRoot.style.filter =
+            owner && !stackEditable
+              ? `drop-shadow(0 0 2px ${owner.color}) drop-shadow(0 0 2px ${owner.color})`
+              : "";
+        }
+
+        // Owners see the suggestions left on their stacks as a warning
+        const proposals = isOwnStack ? getStackProposals(root.id) : [];
+        root.setWarningText(
+          proposals.length > 0
+            ? proposals.map((p) => `${p.authorName}: ${p.text}`).join("\n")
+            : null,
+          "collab_proposals"
+        );
+      });
+
+      // Only local blocks go, the shared maps keep them
+      if (privateStacks.length > 0) {
+        ignoreLocalEvents = true;
+        Blockly.Events.disable();
+        try {
+          privateStacks.forEach((root) => root.dispose(false));
+        } finally {
+          Blockly.Events.enable();
+          setTimeout(() => {
+            ignoreLocalEvents = false;
+          }, 200);
+        }
+      }
+
+      renderLocks();
+    } catch (error) {
+      console.error("Error applying stack ownership:", error);
+    }
+  };
+
   // Sync the entire workspace initially or when needed
   const syncFullWorkspace = () => {
     if (isApplyingRemoteChanges) return;
@@ -631,8 +2097,10 @@ export function setupBlocklySync(
     ignoreLocalEvents = true;
 
     try {
-      // Get all blocks
-      const blocks = workspace.getAllBlocks(false);
+      // Get all blocks, shadows are saved as part of their parent
+      const blocks = workspace
+        .getAllBlocks(false)
+        .filter((block: any) => !block.isShadow());
 
       // First pass: store block data
       blocks.forEach((block: any) => {
@@ -643,44 +2111,33 @@ export function setupBlocklySync(
         }
       });
 
-      // Second pass: store connections
-      blocks.forEach((block: any) => {
-        const connections: any = { inputs: {} };
+      // Store variables, workspace comments and procedure signatures
+      workspace.getAllVariables().forEach((variable: any) => {
+        sharedVariables.set(variable.getId(), serializeVariable(variable));
+      });
 
-        // Previous connection
-        if (
-          block.previousConnection &&
-          block.previousConnection.targetBlock()
-        ) {
-          connections.previous = block.previousConnection.targetBlock().id;
-        }
+      workspace.getTopComments(false).forEach((comment: any) => {
+        sharedComments.set(comment.id, serializeComment(comment));
+      });
 
-        // Next connection
-        if (block.nextConnection && block.nextConnection.targetBlock()) {
-          connections.next = block.nextConnection.targetBlock().id;
+      blocks.forEach((block: any) => {
+        if (isProcedureDefinition(block)) {
+          sharedProcedures.set(block.id, serializeProcedure(block));
         }
+      });
 
-        // Input connections
-        if (block.inputList) {
-          block.inputList.forEach((input: any) => {
-            if (input.connection && input.connection.targetBlock()) {
-              connections.inputs[input.name] =
-                input.connection.targetBlock().id;
-            }
-          });
-        }
+      // Second pass: store connections
+      blocks.forEach((block: any) => {
+        sharedConnections.set(block.id, serializeConnections(block));
+      });
 
-        sharedConnections.set(block.id, connections);
+      // Whoever seeds the room owns the stacks it starts with
+      workspace.getTopBlocks(false).forEach((root: any) => {
+        claimStack(root.id);
       });
 
-      // Store workspace state (viewport, etc.)
-      const metrics = workspace.getMetrics();
-      if (metrics) {
-        // Store viewport information in a normalized way
-        // sharedWorkspaceState.set('viewportLeft', metrics.viewLeft);
-        // sharedWorkspaceState.set('viewportTop', metrics.viewTop);
-        // sharedWorkspaceState.set('scale', workspace.scale);
-      }
+      // Viewports stay out of the document, each user navigates on their
+      // own unless following a presenter (see setupCursorTracking)
 
       console.log("Synchronized full workspace with", blocks.length, "blocks");
     } catch (error) {
@@ -708,8 +2165,16 @@ export function setupBlocklySync(
       // Clear workspace
       workspace.clear();
 
-      // Create all blocks first
-      const blockIds = Array.from(sharedBlocksData.keys());
+      // Recreate variables before blocks so variable fields resolve
+      sharedVariables.forEach((variableData: any) => {
+        applyVariable(variableData);
+      });
+
+      // Create all blocks first, leaving out others' private stacks
+      const parents = getSharedParents();
+      const blockIds = Array.from(sharedBlocksData.keys()).filter(
+        (blockId: any) => !isOthersPrivateStack(getSharedRoot(blockId, parents))
+      );
       blockIds.forEach((blockId) => {
         const blockData = sharedBlocksData.get(blockId);
         if (blockData) {
@@ -720,18 +2185,16 @@ export function setupBlocklySync(
       // Then connect blocks
       connectBlocks();
 
-      // Apply workspace state
-      // const viewportLeft = sharedWorkspaceState.get('viewportLeft');
-      // const viewportTop = sharedWorkspaceState.get('viewportTop');
-      // const scale = sharedWorkspaceState.get('scale');
+      // Restore procedure signatures and workspace comments
+      sharedProcedures.forEach((procedureData: any) => {
+        applyProcedure(procedureData);
+      });
 
-      // if (viewportLeft !== undefined && viewportTop !== undefined) {
-      //   workspace.scroll(viewportLeft, viewportTop);
-      // }
+      sharedComments.forEach((commentData: any) => {
+        applyComment(commentData);
+      });
 
-      // if (scale !== undefined && typeof workspace.setScale === 'function') {
-      //   workspace.setScale(scale);
-      // }
+      applyOwnership();
 
       console.log("Applied remote changes with", blockIds.length, "blocks");
     } catch (error) {
@@ -750,18 +2213,106 @@ export function setupBlocklySync(
 
   // Initialize workspace if shared data is empty
   if (sharedBlocks.size === 0) {
-    console.log("Initializing shared workspace data");
-    syncFullWorkspace();
+    // Viewers never seed the shared document, they wait for an editor
+    if (!readOnly) {
+      console.log("Initializing shared workspace data");
+      syncFullWorkspace();
+    }
   } else {
     console.log("Applying existing shared workspace data");
     applyRemoteChanges();
   }
 
   // Listen for changes to the workspace
+  // Events that change the shared program, as opposed to UI events
+  const editEventTypes = [
+    Blockly.Events.BLOCK_CREATE,
+    Blockly.Events.BLOCK_DELETE,
+    Blockly.Events.BLOCK_CHANGE,
+    Blockly.Events.BLOCK_MOVE,
+    Blockly.Events.VAR_CREATE,
+    Blockly.Events.VAR_RENAME,
+    Blockly.Events.VAR_DELETE,
+    Blockly.Events.COMMENT_CREATE,
+    Blockly.Events.COMMENT_CHANGE,
+    Blockly.Events.COMMENT_MOVE,
+    Blockly.Events.COMMENT_DELETE,
+  ];
+
+  // Helper to remove a block that was created without the edit turn
+  const discardLocalBlock = (blockId: string) => {
+    const block = workspace.getBlockById(blockId);
+    if (!block || block.isDragging_ || sharedBlocks.has(blockId)) return;
+
+    ignoreLocalEvents = true;
+    try {
+      block.dispose(false);
+    } finally {
+      setTimeout(() => {
+        ignoreLocalEvents = false;
+      }, 200);
+    }
+  };
+
+  // Edits made without the edit turn, undone together newest first
+  let rejectedEvents: any[] = [];
+
+  const undoRejectedEvents = () => {
+    const events = rejectedEvents.reverse();
+    rejectedEvents = [];
+
+    let undone = true;
+    ignoreLocalEvents = true;
+    Blockly.Events.disable();
+    try {
+      events.forEach((event) => event.run(false));
+    } catch (error) {
+      console.error("Error undoing edit made without the edit turn:", error);
+      undone = false;
+    } finally {
+      Blockly.Events.enable();
+      setTimeout(() => {
+        ignoreLocalEvents = false;
+      }, 200);
+    }
+
+    // Fall back to rebuilding the workspace from the doc
+    if (!undone) applyRemoteChanges();
+  };
+
+  // Edits made without the edit turn never reach the shared maps, new
+  // blocks are discarded and anything else is undone event by event
+  const rejectLocalEdit = (event: any) => {
+    if (event.type === Blockly.Events.BLOCK_CREATE) {
+      // Blocks dragged out of the toolbox are discarded once dropped
+      setTimeout(() => discardLocalBlock(event.blockId), 0);
+      return;
+    }
+
+    if (rejectedEvents.length === 0) setTimeout(undoRejectedEvents, 0);
+    rejectedEvents.push(event);
+  };
+
   const changeListener = (event: any) => {
     // Skip if we're applying remote changes or event is NULL
     if (isApplyingRemoteChanges || ignoreLocalEvents || !event) return;
 
+    // Local events of viewers never reach the shared maps
+    if (readOnly) return;
+
+    if (!hasEditTurn()) {
+      if (
+        event.type === Blockly.Events.BLOCK_DRAG &&
+        !event.isStart &&
+        event.blockId
+      ) {
+        discardLocalBlock(event.blockId);
+      } else if (editEventTypes.includes(event.type)) {
+        rejectLocalEdit(event);
+      }
+      return;
+    }
+
     try {
       // Handle different event types
       if (event.type === Blockly.Events.BLOCK_CREATE) {
@@ -780,49 +2331,89 @@ export function setupBlocklySync(
           }
 
           // Add a small delay to avoid synchronizing blocks that are still being manipulated
-          setTimeout(() => {
-            if (!workspace.getBlockById(event.blockId)) return; // Block may have been deleted
+          setTimeout(() => transactLocal(() => {
+            // The event covers the whole created stack, including child blocks
+            const createdIds: string[] = event.ids || [event.blockId];
+            createdIds.forEach((id) => {
+              const createdBlock = workspace.getBlockById(id);
+              if (!createdBlock || createdBlock.isShadow()) return; // Block may have been deleted
+
+              // Add to shared data
+              const blockData = serializeBlock(createdBlock);
+              if (blockData) {
+                sharedBlocks.set(createdBlock.id, true);
+                sharedBlocksData.set(createdBlock.id, blockData);
+
+                // Add connection data
+                sharedConnections.set(
+                  createdBlock.id,
+                  serializeConnections(createdBlock)
+                );
 
-            // Add to shared data
-            const blockData = serializeBlock(block);
-            if (blockData) {
-              sharedBlocks.set(block.id, true);
-              sharedBlocksData.set(block.id, blockData);
+                if (isProcedureDefinition(createdBlock)) {
+                  sharedProcedures.set(
+                    createdBlock.id,
+                    serializeProcedure(createdBlock)
+                  );
+                }
+              }
+            });
 
-              // Add connection data
-              const connections = { inputs: {} };
-              sharedConnections.set(block.id, connections);
+            // New top-level stacks belong to the user who created them
+            const createdRoot = workspace.getBlockById(event.blockId);
+            if (createdRoot && !createdRoot.getParent()) {
+              claimStack(createdRoot.id);
             }
-          }, 300); // Slightly longer delay to ensure stability
+          }), 300); // Slightly longer delay to ensure stability
         }
       } else if (event.type === Blockly.Events.BLOCK_DELETE) {
-        // Block deleted
-        sharedBlocks.delete(event.blockId);
-        sharedBlocksData.delete(event.blockId);
-        sharedConnections.delete(event.blockId);
+        // Block deleted, along with every child block in the stack
+        const deletedIds: string[] = event.ids || [event.blockId];
+        transactLocal(() => {
+          deletedIds.forEach((id) => {
+            if (!sharedBlocks.has(id)) return;
+
+            sharedBlocks.delete(id);
+            sharedBlocksData.delete(id);
+            sharedConnections.delete(id);
+            if (sharedProcedures.has(id)) {
+              sharedProcedures.delete(id);
+            }
+            if (sharedOwners.has(id)) {
+              sharedOwners.delete(id);
+            }
+          });
+        });
       } else if (event.type === Blockly.Events.BLOCK_CHANGE) {
-        // Block changed (field value, etc.)
-        const block = workspace.getBlockById(event.blockId);
+        // Block changed (field value, mutation, etc.)
+        // Changes to a shadow block are stored on its parent's record
+        const block = getSyncRoot(workspace.getBlockById(event.blockId));
         if (block) {
-          // Skip temporary blocks, shadow blocks, or blocks being dragged
-          if (
-            block.isInFlyout ||
-            block.isShadow() ||
-            block.isDragging_ ||
-            block.isTemporary
-          ) {
+          // Skip temporary blocks or blocks being dragged
+          if (block.isInFlyout || block.isDragging_ || block.isTemporary) {
+            return;
+          }
+
+          // Edits to stacks we cannot change become proposals instead
+          if (!canEditStack(getStackOwner(block))) {
+            recordProposal(block);
             return;
           }
 
           // Add a small delay for stability
-          setTimeout(() => {
-            if (!workspace.getBlockById(event.blockId)) return;
+          setTimeout(() => transactLocal(() => {
+            if (!workspace.getBlockById(block.id)) return;
 
             const blockData = serializeBlock(block);
             if (blockData) {
               sharedBlocksData.set(block.id, blockData);
             }
-          }, 200);
+
+            // Renames and parameter edits change the procedure signature
+            if (isProcedureDefinition(block)) {
+              sharedProcedures.set(block.id, serializeProcedure(block));
+            }
+          }), 200);
         }
       } else if (event.type === Blockly.Events.BLOCK_MOVE) {
         // Block moved or connection changed
@@ -839,9 +2430,14 @@ export function setupBlocklySync(
             return;
           }
 
+          // The stack the block was dragged out of, read before the delay
+          const previousOwner = event.oldParentId
+            ? getStackOwner(workspace.getBlockById(event.oldParentId))
+            : undefined;
+
           // Add a delay to avoid synchronizing blocks that are still being moved
           // This ensures we only synchronize the final position after the drag operation
-          setTimeout(() => {
+          setTimeout(() => transactLocal(() => {
             if (!workspace.getBlockById(event.blockId)) return; // Block may have been deleted
 
             // Update block data (position)
@@ -850,51 +2446,58 @@ export function setupBlocklySync(
               sharedBlocksData.set(block.id, blockData);
             }
 
-            // Update connections
-            const connections: any = { inputs: {} };
-
-            // Previous connection
-            if (
-              block.previousConnection &&
-              block.previousConnection.targetBlock()
-            ) {
-              connections.previous = block.previousConnection.targetBlock().id;
-            }
-
-            // Next connection
-            if (block.nextConnection && block.nextConnection.targetBlock()) {
-              connections.next = block.nextConnection.targetBlock().id;
-            }
+            // Update connections, the parents' records list their children
+            // too so both sides stay in step
+            sharedConnections.set(block.id, serializeConnections(block));
+            [event.oldParentId, event.newParentId].forEach((parentId: string) => {
+              const parent = parentId ? workspace.getBlockById(parentId) : null;
+              if (parent && sharedBlocks.has(parent.id)) {
+                sharedConnections.set(parent.id, serializeConnections(parent));
+              }
+            });
 
-            // Input connections
-            if (block.inputList) {
-              block.inputList.forEach((input: any) => {
-                if (input.connection && input.connection.targetBlock()) {
-                  connections.inputs[input.name] =
-                    input.connection.targetBlock().id;
-                }
-              });
+            // Splitting a stack keeps its owner, joining one adopts the parent's
+            if (event.oldParentId && !event.newParentId) {
+              claimStack(block.id, previousOwner);
+            } else if (event.newParentId && sharedOwners.has(block.id)) {
+              sharedOwners.delete(block.id);
             }
-
-            sharedConnections.set(block.id, connections);
-          }, 300); // Longer delay for move events
+            applyOwnership();
+          }), 300); // Longer delay for move events
+        }
+      } else if (
+        event.type === Blockly.Events.VAR_CREATE ||
+        event.type === Blockly.Events.VAR_RENAME
+      ) {
+        // Variable created or renamed
+        const variable = workspace.getVariableById(event.varId);
+        if (variable) {
+          transactLocal(() =>
+            sharedVariables.set(variable.getId(), serializeVariable(variable))
+          );
+        }
+      } else if (event.type === Blockly.Events.VAR_DELETE) {
+        // Variable deleted
+        transactLocal(() => sharedVariables.delete(event.varId));
+      } else if (
+        event.type === Blockly.Events.COMMENT_CREATE ||
+        event.type === Blockly.Events.COMMENT_CHANGE ||
+        event.type === Blockly.Events.COMMENT_MOVE
+      ) {
+        // Workspace comment created, edited or moved
+        const comment = workspace.getCommentById(event.commentId);
+        if (comment) {
+          transactLocal(() =>
+            sharedComments.set(comment.id, serializeComment(comment))
+          );
         }
+      } else if (event.type === Blockly.Events.COMMENT_DELETE) {
+        // Workspace comment deleted
+        transactLocal(() => sharedComments.delete(event.commentId));
       } else if (event.type === Blockly.Events.VIEWPORT_CHANGE) {
         // Viewport changed (scroll, zoom)
-        // Skip synchronizing viewport changes from local user
-        // This prevents the view from jumping when multiple users are viewing different areas
-        // Each user should control their own view independently
-        // Previous implementation that was causing the glitching:
-        // const viewportLeft = sharedWorkspaceState.get('viewportLeft');
-        // const viewportTop = sharedWorkspaceState.get('viewportTop');
-        // const scale = sharedWorkspaceState.get('scale');
-        // // Only update if values are valid
-        // if (viewportLeft !== undefined && viewportTop !== undefined) {
-        //   workspace.scroll(viewportLeft, viewportTop);
-        // }
-        // if (scale !== undefined && typeof workspace.setScale === 'function') {
-        //   workspace.setScale(scale);
-        // }
+        // Not synchronized, each user controls their own view. Presenters
+        // share theirs through awareness instead, see setupCursorTracking
       }
     } catch (error) {
       console.error("Error in change listener:", error);
@@ -906,6 +2509,7 @@ export function setupBlocklySync(
 
   // Handle updates from other clients
   const blocksObserver = (events: any) => {
+    scheduleClassmatesPreview();
     if (isApplyingRemoteChanges) return;
 
     try {
@@ -954,6 +2558,7 @@ export function setupBlocklySync(
 
   // Observer for block data changes
   const blocksDataObserver = (events: any) => {
+    scheduleClassmatesPreview();
     if (isApplyingRemoteChanges) return;
 
     try {
@@ -966,15 +2571,17 @@ export function setupBlocklySync(
       ignoreLocalEvents = true;
 
       try {
-        Array.from(keys).forEach((id) => {
+        const parents = getSharedParents();
+        Array.from(keys).forEach((id: any) => {
           const blockData = sharedBlocksData.get(id);
-          if (blockData) {
+          if (blockData && !isOthersPrivateStack(getSharedRoot(id, parents))) {
             deserializeBlock(blockData);
           }
         });
 
         // Update connections after all blocks are updated
         connectBlocks();
+        applyOwnership();
       } finally {
         isApplyingRemoteChanges = false;
         // Small delay before re-enabling event handling
@@ -987,40 +2594,572 @@ export function setupBlocklySync(
     }
   };
 
+  // Observer for variable changes
+  const variablesObserver = (events: any) => {
+    if (isApplyingRemoteChanges) return;
+
+    try {
+      const keys = events.keysChanged;
+      if (keys.size === 0) return;
+
+      isApplyingRemoteChanges = true;
+      ignoreLocalEvents = true;
+
+      try {
+        Array.from(keys).forEach((id: any) => {
+          const variableData = sharedVariables.get(id);
+          if (variableData) {
+            applyVariable(variableData);
+          } else {
+            removeVariable(id);
+          }
+        });
+      } finally {
+        isApplyingRemoteChanges = false;
+        setTimeout(() => {
+          ignoreLocalEvents = false;
+        }, 200);
+      }
+    } catch (error) {
+      console.error("Error handling variable updates:", error);
+    }
+  };
+
+  // Observer for workspace comment changes
+  const commentsObserver = (events: any) => {
+    if (isApplyingRemoteChanges) return;
+
+    try {
+      const keys = events.keysChanged;
+      if (keys.size === 0) return;
+
+      isApplyingRemoteChanges = true;
+      ignoreLocalEvents = true;
+
+      try {
+        Array.from(keys).forEach((id: any) => {
+          const commentData = sharedComments.get(id);
+          if (commentData) {
+            applyComment(commentData);
+          } else {
+            const comment = workspace.getCommentById(id);
+            if (comment) {
+              comment.dispose();
+            }
+          }
+        });
+      } finally {
+        isApplyingRemoteChanges = false;
+        setTimeout(() => {
+          ignoreLocalEvents = false;
+        }, 200);
+      }
+    } catch (error) {
+      console.error("Error handling comment updates:", error);
+    }
+  };
+
+  // Observer for procedure signature changes
+  const proceduresObserver = (events: any) => {
+    if (isApplyingRemoteChanges) return;
+
+    try {
+      const keys = events.keysChanged;
+      if (keys.size === 0) return;
+
+      isApplyingRemoteChanges = true;
+      ignoreLocalEvents = true;
+
+      try {
+        // Removed definitions are handled by the blocks observer
+        Array.from(keys).forEach((id: any) => {
+          applyProcedure(sharedProcedures.get(id));
+        });
+      } finally {
+        isApplyingRemoteChanges = false;
+        setTimeout(() => {
+          ignoreLocalEvents = false;
+        }, 200);
+      }
+    } catch (error) {
+      console.error("Error handling procedure updates:", error);
+    }
+  };
+
+  // Observer for connection changes, which plugs blocks in and unplugs them,
+  // e.g. when an undo reverts a drag that attached a block
+  const connectionsObserver = (events: any, transaction: any) => {
+    // Local edits were made in the workspace before they were recorded
+    if (isApplyingRemoteChanges || transaction.origin === localEditOrigin) return;
+
+    const keys = Array.from(events.keysChanged) as string[];
+    if (keys.length === 0) return;
+
+    isApplyingRemoteChanges = true;
+    ignoreLocalEvents = true;
+    Blockly.Events.disable();
+
+    try {
+      const detached: any[] = [];
+
+      keys.forEach((id) => {
+        const block = workspace.getBlockById(id);
+        const connections = sharedConnections.get(id);
+        if (!block || !connections) return;
+
+        // Unplug the block from a parent its record no longer names
+        const parent = block.previousConnection?.targetBlock();
+        if (parent && parent.id !== connections.previous) {
+          block.previousConnection.disconnect();
+          detached.push(block);
+        }
+
+        // And children its record no longer lists
+        const nextBlock = block.nextConnection?.targetBlock();
+        if (nextBlock && !nextBlock.isShadow() && nextBlock.id !== connections.next) {
+          block.nextConnection.disconnect();
+          detached.push(nextBlock);
+        }
+        block.inputList.forEach((input: any) => {
+          const child = input.connection?.targetBlock();
+          if (child && !child.isShadow() && child.id !== connections.inputs?.[input.name]) {
+            input.connection.disconnect();
+            detached.push(child);
+          }
+        });
+      });
+
+      connectBlocks();
+
+      // Blocks left on their own go back to where the doc has them
+      detached.forEach((block) => {
+        if (!block.getParent()) deserializeBlock(sharedBlocksData.get(block.id));
+      });
+
+      applyOwnership();
+    } catch (error) {
+      console.error("Error handling connection updates:", error);
+    } finally {
+      Blockly.Events.enable();
+      isApplyingRemoteChanges = false;
+      setTimeout(() => {
+        ignoreLocalEvents = false;
+      }, 200);
+    }
+  };
+
+  // Observer for stack ownership changes
+  const ownersObserver = () => {
+    applyOwnership();
+    scheduleClassmatesPreview();
+  };
+
+  // Observer for suggestions left on stacks
+  const proposalsObserver = () => {
+    applyOwnership();
+    renderProposalPreview();
+  };
+
+  // Observer for the turn-taking edit token
+  const editTokenObserver = () => {
+    applyOwnership();
+  };
+
+  // Blocks locked by others right now, as a key that only changes when a
+  // lock is taken, let go or runs out, not when one is renewed
+  let activeForeignLocks = "";
+  const refreshForeignLocks = () => {
+    const foreignLocks: string[] = [];
+    sharedLocks.forEach((lock: BlockLock, blockId: string) => {
+      if (isLockActive(blockId, lock) && lock.clientId !== localClientId) foreignLocks.push(blockId);
+    });
+    const key = foreignLocks.sort().join(",");
+    if (key !== activeForeignLocks) {
+      activeForeignLocks = key;
+      applyOwnership();
+    }
+  };
+
+  // Observer for blocks being locked, renewed and unlocked
+  const locksObserver = (event: any) => {
+    event.keysChanged.forEach((blockId: string) => {
+      if (sharedLocks.has(blockId)) {
+        lockSeenAt.set(blockId, Date.now());
+      } else {
+        lockSeenAt.delete(blockId);
+      }
+    });
+    refreshForeignLocks();
+  };
+
+  // Take a lock when a drag starts or a field of a block is being edited
+  const lockListener = (event: any) => {
+    if (event.type === Blockly.Events.BLOCK_DRAG) {
+      isDragging = event.isStart;
+      if (event.isStart) {
+        acquireLock(event.blockId);
+      } else {
+        releaseLock();
+      }
+    } else if (
+      event.type === Blockly.Events.BLOCK_FIELD_INTERMEDIATE_CHANGE ||
+      (event.type === Blockly.Events.SELECTED && event.newElementId)
+    ) {
+      // Editors open after the block is selected, so check once they're up
+      setTimeout(() => {
+        const selected = Blockly.getSelected();
+        if (isEditingField() && selected?.id) acquireLock(selected.id);
+      }, 0);
+    }
+  };
+  workspace.addChangeListener(lockListener);
+
+  // Keep the held lock alive while it's in use, and notice locks of others
+  // that timed out or whose holder left
+  const lockInterval = setInterval(() => {
+    if (heldLockId) {
+      const selected = Blockly.getSelected();
+      const inUse = isDragging || (isEditingField() && selected?.id === heldLockId);
+      if (!inUse) {
+        releaseLock();
+      } else if (Date.now() - heldLockRenewedAt > BLOCK_LOCK_TIMEOUT / 2) {
+        renewLock();
+      }
+    }
+
+    refreshForeignLocks();
+  }, BLOCK_LOCK_CHECK_INTERVAL);
+
+  // The current holder's client rotates the token once their time is up
+  const turnRotationInterval = setInterval(() => {
+    const turn = getEditTurn(ydoc);
+    if (
+      turn.enabled &&
+      turn.rotateSeconds > 0 &&
+      localUser &&
+      turn.holder?.id === localUser.id &&
+      Date.now() - turn.acquiredAt >= turn.rotateSeconds * 1000
+    ) {
+      passEditTurn(ydoc, undefined, options?.awareness);
+    }
+  }, 1000);
+
+  // Context menu items for handing stacks over or opening them to everyone
+  const contextMenuRegistry = Blockly.ContextMenuRegistry?.registry;
+  const ownershipMenuItems = [
+    {
+      id: "collab_open_stack",
+      displayText: "Let everyone edit this stack",
+      preconditionFn: (scope: any) => {
+        const owner = getStackOwner(scope.block);
+        return owner && owner.ownerId === localUser?.id && !owner.open
+          ? "enabled"
+          : "hidden";
+      },
+      callback: (scope: any) => {
+        const rootId = scope.block.getRootBlock().id;
+        sharedOwners.set(rootId, { ...sharedOwners.get(rootId), open: true });
+      },
+    },
+    {
+      id: "collab_close_stack",
+      displayText: "Only let me edit this stack",
+      preconditionFn: (scope: any) => {
+        const owner = getStackOwner(scope.block);
+        return owner && owner.ownerId === localUser?.id && owner.open
+          ? "enabled"
+          : "hidden";
+      },
+      callback: (scope: any) => {
+        const rootId = scope.block.getRootBlock().id;
+        sharedOwners.set(rootId, { ...sharedOwners.get(rootId), open: false });
+      },
+    },
+    {
+      id: "collab_suggest_change",
+      displayText: "Suggest a change to this stack...",
+      preconditionFn: (scope: any) => {
+        const owner = getStackOwner(scope.block);
+        return owner &&
+          getCollaborationLevel(ydoc) === "guided" &&
+          !canEditStack(owner)
+          ? "enabled"
+          : "hidden";
+      },
+      callback: (scope: any) => {
+        const rootId = scope.block.getRootBlock().id;
+        const owner = getStackOwner(scope.block);
+
+        Blockly.dialog.prompt(
+          `What would you like to suggest to ${owner?.ownerName}?`,
+          "",
+          (text: string | null) => {
+            if (!text || !text.trim() || !localUser) return;
+
+            sharedProposals.push([
+              {
+                id: `${localUser.id}_${Date.now()}`,
+                stackId: rootId,
+                authorId: localUser.id,
+                authorName: localUser.name,
+                text: text.trim(),
+                createdAt: Date.now(),
+              },
+            ]);
+          }
+        );
+      },
+    },
+    {
+      id: "collab_review_proposals",
+      displayText: "Review suggested changes...",
+      preconditionFn: (scope: any) => {
+        const owner = getStackOwner(scope.block);
+        return owner &&
+          owner.ownerId === localUser?.id &&
+          getBlockProposals(scope.block.id).length > 0
+          ? "enabled"
+          : "hidden";
+      },
+      callback: (scope: any) => {
+        openProposalPreview(scope.block.id);
+      },
+    },
+    {
+      id: "collab_dismiss_suggestions",
+      displayText: "Dismiss suggestions on this stack",
+      preconditionFn: (scope: any) => {
+        const rootId = scope.block.getRootBlock().id;
+        const owner = getStackOwner(scope.block);
+        return owner &&
+          owner.ownerId === localUser?.id &&
+          getStackProposals(rootId).length > 0
+          ? "enabled"
+          : "hidden";
+      },
+      callback: (scope: any) => {
+        const rootId = scope.block.getRootBlock().id;
+
+        // Delete from the end so earlier indexes stay valid
+        ydoc.transact(() => {
+          const proposals = sharedProposals.toArray();
+          for (let i = proposals.length - 1; i >= 0; i--) {
+            if (proposals[i].stackId === rootId) {
+              sharedProposals.delete(i, 1);
+            }
+          }
+        });
+      },
+    },
+    {
+      id: "collab_hand_over_stack",
+      displayText: "Hand this stack to a collaborator...",
+      preconditionFn: (scope: any) => {
+        const owner = getStackOwner(scope.block);
+        return owner && owner.ownerId === localUser?.id && options?.awareness
+          ? "enabled"
+          : "hidden";
+      },
+      callback: (scope: any) => {
+        const rootId = scope.block.getRootBlock().id;
+
+        // Collect the other connected users that can receive the stack
+        const candidates: any[] = [];
+        options?.awareness.getStates().forEach((state: any) => {
+          if (state.userId && state.userId !== localUser?.id) {
+            candidates.push(state);
+          }
+        });
+
+        if (candidates.length === 0) {
+          Blockly.dialog.alert("Nobody else is connected right now.");
+          return;
+        }
+
+        Blockly.dialog.prompt(
+          `Hand this stack to: ${candidates.map((c) => c.name).join(", ")}`,
+          candidates[0].name,
+          (name: string | null) => {
+            if (!name) return;
+
+            const target = candidates.find(
+              (c) =>
+                (c.name || "").toLowerCase() === name.trim().toLowerCase()
+            );
+            if (!target) {
+              Blockly.dialog.alert(`Nobody called "${name}" is connected.`);
+              return;
+            }
+
+            sharedOwners.set(rootId, {
+              ownerId: target.userId,
+              ownerName: target.name,
+              color: target.color,
+              open: false,
+            });
+          }
+        );
+      },
+    },
+  ];
+
+  // Workspace context menu item for classmates' work in independent rooms
+  const workspaceMenuItems = [
+    {
+      id: "collab_view_classmates",
+      displayText: "Show classmates' work",
+      preconditionFn: () =>
+        getCollaborationLevel(ydoc) === "independent" ? "enabled" : "hidden",
+      callback: () => {
+        openClassmatesPreview();
+      },
+    },
+  ];
+
+  if (contextMenuRegistry && localUser) {
+    ownershipMenuItems.forEach((item, index) => {
+      if (contextMenuRegistry.getItem(item.id)) {
+        contextMenuRegistry.unregister(item.id);
+      }
+      contextMenuRegistry.register({
+        ...item,
+        scopeType: Blockly.ContextMenuRegistry.ScopeType.BLOCK,
+        weight: 100 + index,
+      });
+    });
+    workspaceMenuItems.forEach((item, index) => {
+      if (contextMenuRegistry.getItem(item.id)) {
+        contextMenuRegistry.unregister(item.id);
+      }
+      contextMenuRegistry.register({
+        ...item,
+        scopeType: Blockly.ContextMenuRegistry.ScopeType.WORKSPACE,
+        weight: 100 + index,
+      });
+    });
+  }
+
   // Observer for workspace state changes
   const workspaceStateObserver = (events: any) => {
     if (isApplyingRemoteChanges) return;
 
-    try {
-      // Check if viewport changed
-      if (
-        events.keysChanged.has("viewportLeft") ||
-        events.keysChanged.has("viewportTop") ||
-        events.keysChanged.has("scale")
-      ) {
-        // Viewport synchronization is disabled to prevent jumping views
-        // Each user can navigate their workspace independently
-        // Previous implementation that was causing the glitching:
-        // const viewportLeft = sharedWorkspaceState.get('viewportLeft');
-        // const viewportTop = sharedWorkspaceState.get('viewportTop');
-        // const scale = sharedWorkspaceState.get('scale');
-        // // Only update if values are valid
-        // if (viewportLeft !== undefined && viewportTop !== undefined) {
-        //   workspace.scroll(viewportLeft, viewportTop);
-        // }
-        // if (scale !== undefined && typeof workspace.setScale === 'function') {
-        //   workspace.setScale(scale);
-        // }
-      }
-    } catch (error) {
-      console.error("Error handling workspace state updates:", error);
+    try {
+      // Collaboration level switched, rebuild so others' stacks leave or
+      // come back, and re-evaluate which stacks are editable
+      if (events.keysChanged.has("collaborationLevel")) {
+        applyRemoteChanges();
+        scheduleClassmatesPreview();
+      }
+    } catch (error) {
+      console.error("Error handling workspace state updates:", error);
+    }
+  };
+
+  // Set up observers
+  sharedBlocks.observe(blocksObserver);
+  sharedBlocksData.observe(blocksDataObserver);
+  sharedConnections.observe(connectionsObserver);
+  sharedWorkspaceState.observe(workspaceStateObserver);
+  sharedVariables.observe(variablesObserver);
+  sharedComments.observe(commentsObserver);
+  sharedProcedures.observe(proceduresObserver);
+  sharedOwners.observe(ownersObserver);
+  sharedProposals.observe(proposalsObserver);
+  sharedEditToken.observe(editTokenObserver);
+  sharedLocks.observe(locksObserver);
+
+  // Apply the current ownership once everything is in place
+  applyOwnership();
+
+  // Restoring a snapshot rewrites the shared maps from the loaded program,
+  // other clients rebuild their workspace through the observers
+  const restoreSnapshot = (xml: string) => {
+    if (readOnly || !hasEditTurn()) return false;
+
+    ignoreLocalEvents = true;
+    Blockly.Events.disable();
+    try {
+      workspace.clear();
+      Blockly.Xml.domToWorkspace(Blockly.utils.xml.textToDom(xml), workspace);
+    } catch (error) {
+      console.error("Error loading workspace snapshot:", error);
+      Blockly.Events.enable();
+      ignoreLocalEvents = false;
+      applyRemoteChanges();
+      return false;
+    }
+    Blockly.Events.enable();
+
+    transactLocal(() => {
+      // Stacks that survive the restore keep their owners
+      const rootIds = new Set(
+        workspace.getTopBlocks(false).map((block: any) => block.id)
+      );
+      Array.from(sharedOwners.keys()).forEach((id: any) => {
+        if (!rootIds.has(id)) sharedOwners.delete(id);
+      });
+
+      [
+        sharedBlocks,
+        sharedBlocksData,
+        sharedConnections,
+        sharedVariables,
+        sharedComments,
+        sharedProcedures,
+      ].forEach((sharedMap) => sharedMap.clear());
+
+      syncFullWorkspace();
+    });
+    applyOwnership();
+    return true;
+  };
+  workspaceRestorers.set(workspace, restoreSnapshot);
+
+  // Per-user undo: Blockly's own undo stack also holds remote changes, so
+  // undo and redo go through a Yjs UndoManager that only tracks local edits.
+  // Reverted changes reach Blockly and other users through the observers
+  const undoManager = new Y.UndoManager(
+    [
+      sharedBlocks,
+      sharedBlocksData,
+      sharedConnections,
+      sharedVariables,
+      sharedComments,
+      sharedProcedures,
+      sharedOwners,
+    ],
+    {
+      trackedOrigins: new Set([localEditOrigin]),
+      // Delayed writes of one drag (create, then move) form a single step
+      captureTimeout: 500,
+    }
+  );
+
+  const notifyUndoState = () => {
+    options?.onUndoStateChange?.({
+      canUndo: undoManager.undoStack.length > 0,
+      canRedo: undoManager.redoStack.length > 0,
+    });
+  };
+  undoManager.on("stack-item-added", notifyUndoState);
+  undoManager.on("stack-item-popped", notifyUndoState);
+  undoManager.on("stack-cleared", notifyUndoState);
+  notifyUndoState();
+
+  // Route Blockly's undo shortcuts and context menu through the UndoManager
+  const originalUndo = workspace.undo;
+  const originalGetUndoStack = workspace.getUndoStack;
+  const originalGetRedoStack = workspace.getRedoStack;
+  workspace.undo = (redo: boolean) => {
+    if (readOnly || !hasEditTurn()) return;
+    if (redo) {
+      undoManager.redo();
+    } else {
+      undoManager.undo();
     }
   };
-
-  // Set up observers
-  sharedBlocks.observe(blocksObserver);
-  sharedBlocksData.observe(blocksDataObserver);
-  sharedWorkspaceState.observe(workspaceStateObserver);
+  workspace.getUndoStack = () => undoManager.undoStack;
+  workspace.getRedoStack = () => undoManager.redoStack;
 
   // Return cleanup function
   return () => {
@@ -1030,7 +3169,42 @@ export function setupBlocklySync(
     // Disconnect observers
     sharedBlocks.unobserve(blocksObserver);
     sharedBlocksData.unobserve(blocksDataObserver);
+    sharedConnections.unobserve(connectionsObserver);
     sharedWorkspaceState.unobserve(workspaceStateObserver);
+    sharedVariables.unobserve(variablesObserver);
+    sharedComments.unobserve(commentsObserver);
+    sharedProcedures.unobserve(proceduresObserver);
+    sharedOwners.unobserve(ownersObserver);
+    sharedProposals.unobserve(proposalsObserver);
+    sharedEditToken.unobserve(editTokenObserver);
+    sharedLocks.unobserve(locksObserver);
+    clearInterval(turnRotationInterval);
+
+    // Let go of any lock and remove the name tags
+    workspace.removeChangeListener(lockListener);
+    clearInterval(lockInterval);
+    releaseLock();
+    lockLabels.forEach((label) => label.remove());
+    pendingProposalTimers.forEach((timer) => clearTimeout(timer));
+    closeProposalPreview();
+    closeClassmatesPreview();
+
+    workspaceRestorers.delete(workspace);
+
+    // Hand undo back to Blockly
+    undoManager.destroy();
+    workspace.undo = originalUndo;
+    workspace.getUndoStack = originalGetUndoStack;
+    workspace.getRedoStack = originalGetRedoStack;
+
+    // Remove the ownership context menu items
+    if (contextMenuRegistry && localUser) {
+      ownershipMenuItems.concat(workspaceMenuItems).forEach((item) => {
+        if (contextMenuRegistry.getItem(item.id)) {
+          contextMenuRegistry.unregister(item.id);
+        }
+      });
+    }
   };
 }
 
@@ -1092,6 +3266,22 @@ export function setupCursorTracking(
   // Create the status element
   const statusElement = createRoomStatusElement();
 
+  // Small button next to a name in the user list
+  const createUserButton = (text: string, onClick: () => void) => {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.style.marginLeft = "8px";
+    button.style.padding = "1px 6px";
+    button.style.border = "none";
+    button.style.borderRadius = "3px";
+    button.style.backgroundColor = "rgba(255, 255, 255, 0.9)";
+    button.style.color = "#222222";
+    button.style.fontSize = "11px";
+    button.style.cursor = "pointer";
+    button.addEventListener("click", onClick);
+    return button;
+  };
+
   // Update the user list in the room status display
   const updateUserList = () => {
     // Find the user list element in the status bar
@@ -1111,6 +3301,7 @@ export function setupCursorTracking(
       name: string;
       color: string;
       isCurrentUser: boolean;
+      presenting: boolean;
     }[] = [];
 
     // Manually iterate through the Map entries
@@ -1120,6 +3311,7 @@ export function setupCursorTracking(
         name: state.name || "Anonymous",
         color: state.color || "#cccccc",
         isCurrentUser: clientId === currentClientId,
+        presenting: !!state.presenting,
       });
     });
 
@@ -1149,11 +3341,31 @@ export function setupCursorTracking(
       colorDot.style.marginRight = "6px";
 
       const nameSpan = document.createElement("span");
-      nameSpan.textContent = user.name + (user.isCurrentUser ? " (you)" : "");
+      nameSpan.textContent =
+        user.name +
+        (user.isCurrentUser ? " (you)" : "") +
+        (user.presenting ? " · presenting" : "");
       nameSpan.style.fontWeight = user.isCurrentUser ? "bold" : "normal";
 
       userEl.appendChild(colorDot);
       userEl.appendChild(nameSpan);
+
+      // Start or stop presenting, or follow someone who is
+      if (user.isCurrentUser) {
+        userEl.appendChild(
+          createUserButton(user.presenting ? "Stop presenting" : "Present", () =>
+            setPresenting(!user.presenting)
+          )
+        );
+      } else if (user.presenting) {
+        const following = followingClientId === user.clientId;
+        userEl.appendChild(
+          createUserButton(following ? "Stop following" : "Follow", () =>
+            following ? stopFollowing() : startFollowing(user.clientId)
+          )
+        );
+      }
+
       userListEl.appendChild(userEl);
     });
 
@@ -1176,337 +3388,433 @@ export function setupCursorTracking(
       ...localState,
       name: user.name || localState.name || "Anonymous",
       color: userColor,
-      // Initialize with current cursor position to make it visible immediately
-      cursor: { x: 0, y: 0 },
+      userId: user.id || localState.userId,
+      // No position until the mouse is over the workspace
+      cursor: null,
+      // IDs of the block the user has selected and is dragging
+      selection: null,
+      dragging: null,
+      // Center and scale of the view while presenting
+      presenting: null,
     });
   }
 
-  // Create and add a cursor element for a user
-  const createCursor = (
-    clientId: number,
-    state: {
-      name?: string;
-      color?: string;
-      cursor?: { x: number; y: number };
-      email?: string;
-    }
-  ) => {
-    // Don't create cursor for current user
-    if (clientId === provider.awareness.clientID) return;
+  // Remote cursors are drawn in a layer over the workspace. Their positions
+  // are shared in workspace coordinates and placed with the local view's
+  // metrics, so a cursor stays over the same block whatever each viewer's
+  // scroll and zoom
+  const injectionDiv = workspace.getInjectionDiv();
+  const cursorLayer = document.createElement("div");
+  cursorLayer.className = "blockly-cursor-layer";
+  cursorLayer.style.position = "absolute";
+  cursorLayer.style.inset = "0";
+  cursorLayer.style.overflow = "hidden";
+  cursorLayer.style.pointerEvents = "none";
+  cursorLayer.style.zIndex = "900";
+  injectionDiv.appendChild(cursorLayer);
+
+  // Off-screen indicators keep this far from the edge of the view
+  const INDICATOR_SIZE = 28;
+  const INDICATOR_MARGIN = 24;
+
+  // The view in workspace coordinates and where it sits in the injection div
+  const getView = () => {
+    const metricsManager = workspace.getMetricsManager();
+    return {
+      view: metricsManager.getViewMetrics(true),
+      absolute: metricsManager.getAbsoluteMetrics(),
+      scale: workspace.scale || 1,
+    };
+  };
 
-    console.log(
-      `Creating cursor for user ${state.name || "Unknown"} (${clientId})`,
-      state
+  // Center the view on a point in workspace coordinates
+  const scrollWorkspaceTo = (x: number, y: number) => {
+    const metrics = workspace.getMetrics();
+    workspace.scroll(
+      metrics.viewWidth / 2 - x * workspace.scale,
+      metrics.viewHeight / 2 - y * workspace.scale
     );
+  };
 
-    // Remove existing cursor if any
-    removeCursor(clientId);
+  // Presenter mode: a presenter shares the center and scale of their view,
+  // and followers' views glide after it until they scroll or zoom themselves
+  const FOLLOW_EASING = 0.2; // Part of the remaining distance covered each frame
 
-    if (!state.cursor) {
-      console.warn(`User ${clientId} has no cursor position`);
-      return;
-    }
+  let isPresenting = false;
+  let followingClientId: number | null = null;
+  let followFrame: number | null = null;
 
-    try {
-      // Get Blockly container div
-      const injectionDiv = workspace.getInjectionDiv();
-      if (!injectionDiv) {
-        console.error("Could not find Blockly injection div");
-        return;
-      }
+  // Views reached while following, to tell them apart from the user's own
+  // scrolling when their viewport events arrive
+  let followedViews: { left: number; top: number; scale: number }[] = [];
 
-      // Find SVG Element with a more comprehensive approach
-      const findSvgElement = (): SVGSVGElement | HTMLElement | null => {
-        // Try different SVG selectors in order of preference
-        const selectors = [
-          "svg.blocklyBlockCanvas",
-          "svg.blocklySvg",
-          "g.blocklyBlockCanvas",
-          ".blocklyMain svg",
-          ".blocklyBlockCanvas",
-          "svg",
-        ];
-
-        for (const selector of selectors) {
-          const element = injectionDiv.querySelector(selector);
-          if (element) {
-            console.log(`Found SVG element using selector: ${selector}`);
-            return element;
-          }
-        }
+  const getViewCenter = () => {
+    const { view, scale } = getView();
+    return {
+      x: view.left + view.width / 2,
+      y: view.top + view.height / 2,
+      scale,
+    };
+  };
 
-        console.warn("No suitable SVG element found in Blockly workspace");
-        return injectionDiv; // Fall back to the injection div
-      };
+  const sendPresenterView = throttle(() => {
+    if (isPresenting) {
+      provider.awareness.setLocalStateField("presenting", getViewCenter());
+    }
+  }, 100);
 
-      // Get SVG container using our robust finder
-      const svgContainer = findSvgElement();
+  // Move the view a step toward the presenter's, until it gets there
+  const followStep = () => {
+    followFrame = null;
+    if (followingClientId === null) return;
 
-      if (!svgContainer) {
-        console.error("Failed to find any suitable container for cursor");
-        return;
-      }
+    const target = provider.awareness.getStates().get(followingClientId)?.presenting;
+    if (!target) return;
 
-      console.log(
-        "Found container for cursor:",
-        svgContainer.tagName,
-        svgContainer.className
+    try {
+      const current = getViewCenter();
+      const close =
+        Math.abs(target.x - current.x) * current.scale < 1 &&
+        Math.abs(target.y - current.y) * current.scale < 1 &&
+        Math.abs(target.scale - current.scale) < 0.001;
+      const ease = close ? 1 : FOLLOW_EASING;
+
+      const scale = current.scale + (target.scale - current.scale) * ease;
+      if (scale !== current.scale) workspace.setScale(scale);
+      scrollWorkspaceTo(
+        current.x + (target.x - current.x) * ease,
+        current.y + (target.y - current.y) * ease
       );
 
-      // Create SVG cursor element for workspace-relative positioning
-      const cursorGroup = document.createElementNS(
-        "http://www.w3.org/2000/svg",
-        "g"
-      );
-      cursorGroup.classList.add("blockly-cursor-svg");
-      cursorGroup.setAttribute("cursor-for-client", clientId.toString());
+      followedViews = followedViews
+        .concat({ left: -workspace.scrollX, top: -workspace.scrollY, scale: workspace.scale })
+        .slice(-20);
+
+      // Stop once there, or when zoom limits or the content bounds keep the
+      // view from getting closer
+      const next = getViewCenter();
+      const moved =
+        Math.abs(next.x - current.x) * next.scale >= 0.5 ||
+        Math.abs(next.y - current.y) * next.scale >= 0.5 ||
+        next.scale !== current.scale;
+      if (!close && moved) {
+        followFrame = requestAnimationFrame(followStep);
+      }
+    } catch (error) {
+      console.error("Error following presenter:", error);
+    }
+  };
 
-      // Create cursor pointer SVG shape
-      const cursorPath = document.createElementNS(
-        "http://www.w3.org/2000/svg",
-        "path"
-      );
-      cursorPath.setAttribute("d", "M0,0 L0,16 L12,0 Z");
-      cursorPath.setAttribute("fill", state.color || "#ff0000");
-      cursorPath.setAttribute("stroke", "white");
-      cursorPath.setAttribute("stroke-width", "1");
-
-      // Add cursor to group
-      cursorGroup.appendChild(cursorPath);
-
-      // Create text label for the cursor
-      const textLabel = document.createElementNS(
-        "http://www.w3.org/2000/svg",
-        "text"
-      );
-      textLabel.setAttribute("x", "16");
-      textLabel.setAttribute("y", "0");
-      textLabel.setAttribute("fill", "white");
-      textLabel.setAttribute("stroke", state.color || "#ff0000");
-      textLabel.setAttribute("stroke-width", "1");
-      textLabel.setAttribute("paint-order", "stroke");
-      textLabel.setAttribute("font-size", "12px");
-      textLabel.setAttribute("font-weight", "bold");
-      textLabel.setAttribute("whiteSpace", "nowrap");
-      textLabel.setAttribute("boxShadow", "0 0 5px rgba(0,0,0,0.3)");
-      textLabel.textContent = state.name || "User";
-
-      // Add background rectangle for the text
-      const textBg = document.createElementNS(
-        "http://www.w3.org/2000/svg",
-        "rect"
-      );
-      textBg.setAttribute("x", "12");
-      textBg.setAttribute("y", "-15");
-      textBg.setAttribute("width", `${(state.name?.length || 4) * 7 + 10}px`);
-      textBg.setAttribute("height", "18px");
-      textBg.setAttribute("fill", state.color || "#ff0000");
-      textBg.setAttribute("rx", "4");
-      textBg.setAttribute("ry", "4");
-
-      // Add label elements to group (background first so text is on top)
-      cursorGroup.appendChild(textBg);
-      cursorGroup.appendChild(textLabel);
-
-      // If we found an SVG element, add the cursor to it for workspace-relative positioning
-      if (svgContainer instanceof SVGElement) {
-        // Try to find the blockly root group to add cursor to
-        const blocklyRoot =
-          svgContainer.querySelector("g.blocklyBlockCanvas") ||
-          svgContainer.querySelector("g.blocklyWorkspace") ||
-          svgContainer;
-
-        if (blocklyRoot && "appendChild" in blocklyRoot) {
-          blocklyRoot.appendChild(cursorGroup);
-        } else {
-          svgContainer.appendChild(cursorGroup);
-        }
+  const requestFollowStep = () => {
+    if (followFrame === null) {
+      followFrame = requestAnimationFrame(followStep);
+    }
+  };
 
-        // Store cursor reference
-        cursors.set(clientId, {
-          element: cursorGroup,
-          state,
-          isSvgCursor: true,
-        });
+  const startFollowing = (clientId: number) => {
+    followingClientId = clientId;
+    followedViews = [];
+    requestFollowStep();
+    updateUserList();
+  };
+
+  const stopFollowing = () => {
+    if (followingClientId === null) return;
+
+    followingClientId = null;
+    if (followFrame !== null) {
+      cancelAnimationFrame(followFrame);
+      followFrame = null;
+    }
+    updateUserList();
+  };
+
+  const setPresenting = (presenting: boolean) => {
+    isPresenting = presenting;
+    if (presenting) stopFollowing();
+    sendPresenterView.cancel();
+    provider.awareness.setLocalStateField(
+      "presenting",
+      presenting ? getViewCenter() : null
+    );
+  };
+
+  // Follow presenters as they start, keep up with the one being followed
+  // and let go of them when they stop
+  const updateFollowing = (clientId: number, state: any, wasPresenting: boolean) => {
+    if (clientId === followingClientId) {
+      if (state?.presenting) {
+        requestFollowStep();
       } else {
-        // Fallback to div-based cursor for non-SVG containers
-        const cursorEl = document.createElement("div");
-        cursorEl.className = "blockly-cursor";
-        cursorEl.style.position = "absolute";
-        cursorEl.style.width = "0";
-        cursorEl.style.height = "0";
-        cursorEl.style.zIndex = "1000";
-        cursorEl.style.pointerEvents = "none";
-        cursorEl.style.transition =
-          "transform 0.1s ease-out, left 0.1s ease-out, top 0.1s ease-out";
-
-        // Create cursor arrow shape using CSS borders
-        cursorEl.style.borderStyle = "solid";
-        cursorEl.style.borderWidth = "0 0 16px 12px";
-        cursorEl.style.borderColor =
-          "transparent transparent transparent " + (state.color || "#ff0000");
-        cursorEl.style.transform = "rotate(-45deg)";
-
-        // Add white outline to make it more visible
-        cursorEl.style.filter =
-          "drop-shadow(0 0 1px white) drop-shadow(0 0 2px rgba(0,0,0,0.5))";
-
-        // Add user label
-        const label = document.createElement("div");
-        label.className = "blockly-cursor-label";
-        label.textContent = state.name || "User";
-        label.style.position = "absolute";
-        label.style.bottom = "24px";
-        label.style.left = "-4px";
-        label.style.backgroundColor = state.color || "#ff0000";
-        label.style.color = "#ffffff";
-        label.style.padding = "2px 8px";
-        label.style.borderRadius = "4px";
-        label.style.fontSize = "12px";
-        label.style.fontWeight = "bold";
-        label.style.whiteSpace = "nowrap";
-        label.style.boxShadow = "0 0 4px rgba(0,0,0,0.3)";
-
-        cursorEl.appendChild(label);
-
-        // Add to workspace container
-        svgContainer.appendChild(cursorEl);
-
-        // Store cursor reference
-        cursors.set(clientId, { element: cursorEl, state, isSvgCursor: false });
+        stopFollowing();
       }
+    } else if (
+      state?.presenting &&
+      !wasPresenting &&
+      !isPresenting &&
+      followingClientId === null
+    ) {
+      startFollowing(clientId);
+    }
+  };
 
-      // Update cursor position based on state
-      updateCursorPosition(clientId);
-
-      console.log(
-        `Cursor created for user ${state.name || "Unknown"} (${clientId})`
-      );
-    } catch (error) {
-      console.error("Error creating cursor:", error);
+  // Create the cursor and off-screen indicator elements for a user
+  const createCursor = (
+    clientId: number,
+    state: {
+      name?: string;
+      color?: string;
+      cursor?: { x: number; y: number } | null;
+      selection?: string | null;
+      dragging?: string | null;
+      email?: string;
     }
+  ) => {
+    // Don't create cursor for current user
+    if (clientId === provider.awareness.clientID) return;
+
+    // Remove existing cursor if any
+    removeCursor(clientId);
+
+    const color = state.color || "#ff0000";
+    const name = state.name || "User";
+
+    const element = document.createElement("div");
+    element.className = "blockly-cursor";
+    element.style.position = "absolute";
+    element.style.left = "0";
+    element.style.top = "0";
+    element.style.display = "none";
+    element.style.transition = "transform 0.1s ease-out";
+
+    // Pointer shape, attributes are set one by one as names and colors come
+    // from other clients
+    const arrow = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+    arrow.setAttribute("width", "14");
+    arrow.setAttribute("height", "20");
+    arrow.setAttribute("viewBox", "0 0 14 20");
+    const arrowPath = document.createElementNS("http://www.w3.org/2000/svg", "path");
+    arrowPath.setAttribute("d", "M1,1 L1,17 L5,13 L8,19 L10,18 L7,12 L13,12 Z");
+    arrowPath.setAttribute("fill", color);
+    arrowPath.setAttribute("stroke", "white");
+    arrowPath.setAttribute("stroke-width", "1");
+    arrow.appendChild(arrowPath);
+    element.appendChild(arrow);
+
+    const label = document.createElement("div");
+    label.className = "blockly-cursor-label";
+    label.textContent = name;
+    label.style.position = "absolute";
+    label.style.left = "14px";
+    label.style.top = "14px";
+    label.style.backgroundColor = color;
+    label.style.color = "#ffffff";
+    label.style.padding = "2px 8px";
+    label.style.borderRadius = "4px";
+    label.style.fontSize = "12px";
+    label.style.fontWeight = "bold";
+    label.style.whiteSpace = "nowrap";
+    label.style.boxShadow = "0 0 4px rgba(0,0,0,0.3)";
+    element.appendChild(label);
+
+    // Badge at the edge of the view pointing toward a cursor outside it,
+    // clicking it scrolls to the cursor
+    const indicator = document.createElement("div");
+    indicator.className = "blockly-cursor-indicator";
+    indicator.title = `${name} is over here`;
+    indicator.textContent = name.charAt(0).toUpperCase();
+    indicator.style.position = "absolute";
+    indicator.style.left = "0";
+    indicator.style.top = "0";
+    indicator.style.width = `${INDICATOR_SIZE}px`;
+    indicator.style.height = `${INDICATOR_SIZE}px`;
+    indicator.style.display = "none";
+    indicator.style.alignItems = "center";
+    indicator.style.justifyContent = "center";
+    indicator.style.borderRadius = "50%";
+    indicator.style.backgroundColor = color;
+    indicator.style.color = "#ffffff";
+    indicator.style.fontSize = "13px";
+    indicator.style.fontWeight = "bold";
+    indicator.style.border = "2px solid white";
+    indicator.style.boxShadow = "0 0 4px rgba(0,0,0,0.4)";
+    indicator.style.cursor = "pointer";
+    indicator.style.pointerEvents = "auto";
+
+    const pointer = document.createElement("div");
+    pointer.style.position = "absolute";
+    pointer.style.left = "50%";
+    pointer.style.top = "50%";
+    pointer.style.width = "0";
+    pointer.style.height = "0";
+    pointer.style.borderStyle = "solid";
+    pointer.style.borderWidth = "6px 0 6px 9px";
+    pointer.style.borderColor = `transparent transparent transparent ${color}`;
+    indicator.appendChild(pointer);
+
+    indicator.addEventListener("click", () => {
+      const position = cursors.get(clientId)?.state.cursor;
+      if (position) scrollWorkspaceTo(position.x, position.y);
+    });
+
+    // Outline of the block the user has selected, with a badge while they drag it
+    const outline = document.createElement("div");
+    outline.className = "blockly-cursor-selection";
+    outline.style.position = "absolute";
+    outline.style.left = "0";
+    outline.style.top = "0";
+    outline.style.display = "none";
+    outline.style.border = `3px solid ${color}`;
+    outline.style.borderRadius = "6px";
+    outline.style.boxSizing = "border-box";
+
+    const badge = document.createElement("div");
+    badge.className = "blockly-cursor-drag-badge";
+    badge.textContent = `being moved by ${name}`;
+    badge.style.position = "absolute";
+    badge.style.left = "0";
+    badge.style.bottom = "100%";
+    badge.style.marginBottom = "4px";
+    badge.style.display = "none";
+    badge.style.backgroundColor = color;
+    badge.style.color = "#ffffff";
+    badge.style.padding = "2px 8px";
+    badge.style.borderRadius = "4px";
+    badge.style.fontSize = "12px";
+    badge.style.fontWeight = "bold";
+    badge.style.whiteSpace = "nowrap";
+    outline.appendChild(badge);
+
+    cursorLayer.appendChild(outline);
+    cursorLayer.appendChild(element);
+    cursorLayer.appendChild(indicator);
+    cursors.set(clientId, { element, indicator, pointer, outline, badge, state });
+
+    updateCursorPosition(clientId);
   };
 
   // Remove a cursor element
   const removeCursor = (clientId: number) => {
     const cursor = cursors.get(clientId);
-    if (cursor && cursor.element) {
-      try {
-        cursor.element.remove();
-        console.log(`Removed cursor for client ${clientId}`);
-      } catch (e) {
-        console.error(
-          `Error removing cursor element for client ${clientId}:`,
-          e
-        );
-      }
+    if (cursor) {
+      cursor.element.remove();
+      cursor.indicator.remove();
+      cursor.outline.remove();
     }
 
     cursors.delete(clientId);
   };
 
-  // Update cursor position based on workspace coordinates
+  // Place a cursor over its workspace position, or an indicator at the edge
+  // of the view when the position is outside it
   const updateCursorPosition = (clientId: number) => {
     const cursor = cursors.get(clientId);
-    if (!cursor || !cursor.state.cursor) return;
+    if (!cursor) return;
 
-    try {
-      // Get cursor position from state - these are in workspace coordinates
-      const workspaceCoordinate = {
-        x: cursor.state.cursor.x,
-        y: cursor.state.cursor.y,
-      };
-
-      console.log(
-        `[Cursor ${clientId}] Workspace Coords: (${workspaceCoordinate.x.toFixed(
-          2
-        )}, ${workspaceCoordinate.y.toFixed(2)})`
-      );
+    updateBlockOutline(cursor);
 
-      // If we're using SVG cursors, handle differently than DOM element cursors
-      if (cursor.isSvgCursor) {
-        // For SVG cursors, we set the transform attribute directly
-        cursor.element.setAttribute(
-          "transform",
-          `translate(${workspaceCoordinate.x}, ${workspaceCoordinate.y})`
-        );
+    const position = cursor.state.cursor;
+    if (!position) {
+      cursor.element.style.display = "none";
+      cursor.indicator.style.display = "none";
+      return;
+    }
 
-        // We'll no longer create directional indicators as requested
+    try {
+      const { view, absolute, scale } = getView();
+      const x = absolute.left + (position.x - view.left) * scale;
+      const y = absolute.top + (position.y - view.top) * scale;
+      const left = absolute.left;
+      const top = absolute.top;
+      const right = absolute.left + view.width * scale;
+      const bottom = absolute.top + view.height * scale;
+
+      if (x >= left && x <= right && y >= top && y <= bottom) {
+        cursor.element.style.display = "block";
+        cursor.element.style.transform = `translate(${x}px, ${y}px)`;
+        cursor.indicator.style.display = "none";
         return;
       }
 
-      // For DOM element cursors, convert workspace coordinates to screen coordinates
-      try {
-        // Get metrics for current viewport state
-        const viewMetrics = workspace.getMetrics();
-        const scale = workspace.scale || 1;
-
-        // Get current scroll offsets
-        const scrollLeft = viewMetrics?.viewLeft || 0;
-        const scrollTop = viewMetrics?.viewTop || 0;
-
-        // Convert workspace coordinates to screen coordinates
-        // First adjust for scroll, then apply scale
-        const screenX = (workspaceCoordinate.x - scrollLeft) * scale;
-        const screenY = (workspaceCoordinate.y - scrollTop) * scale;
+      const indicatorX = Math.min(Math.max(x, left + INDICATOR_MARGIN), right - INDICATOR_MARGIN);
+      const indicatorY = Math.min(Math.max(y, top + INDICATOR_MARGIN), bottom - INDICATOR_MARGIN);
+      const angle = (Math.atan2(y - indicatorY, x - indicatorX) * 180) / Math.PI;
+
+      cursor.element.style.display = "none";
+      cursor.indicator.style.display = "flex";
+      cursor.indicator.style.transform = `translate(${indicatorX - INDICATOR_SIZE / 2}px, ${
+        indicatorY - INDICATOR_SIZE / 2
+      }px)`;
+      cursor.pointer.style.transform = `translate(-50%, -50%) rotate(${angle}deg) translateX(${
+        INDICATOR_SIZE / 2 + 4
+      }px)`;
+    } catch (error) {
+      console.error("Error updating cursor position:", error);
+    }
+  };
 
-        // Set the cursor position directly using the calculated screen coordinates
-        cursor.element.style.left = `${screenX}px`;
-        cursor.element.style.top = `${screenY}px`;
+  // Outline the block a user has selected or is dragging, in their color
+  const updateBlockOutline = (cursor: any) => {
+    const blockId = cursor.state.dragging || cursor.state.selection;
+    const block = blockId ? workspace.getBlockById(blockId) : null;
+    if (!block || !block.rendered) {
+      cursor.outline.style.display = "none";
+      return;
+    }
 
-        // Ensure the cursor is visible
-        cursor.element.style.display = "block";
-      } catch (error) {
-        console.error(
-          `Failed to convert workspace coordinates for client ${clientId}:`,
-          error
-        );
-      }
+    try {
+      const { view, absolute, scale } = getView();
+      const bounds = block.getBoundingRectangle();
+      const padding = 4;
+
+      cursor.outline.style.display = "block";
+      cursor.outline.style.transform = `translate(${
+        absolute.left + (bounds.left - view.left) * scale - padding
+      }px, ${absolute.top + (bounds.top - view.top) * scale - padding}px)`;
+      cursor.outline.style.width = `${(bounds.right - bounds.left) * scale + padding * 2}px`;
+      cursor.outline.style.height = `${(bounds.bottom - bounds.top) * scale + padding * 2}px`;
+      cursor.outline.style.borderStyle = cursor.state.dragging ? "dashed" : "solid";
+      cursor.badge.style.display = cursor.state.dragging ? "block" : "none";
     } catch (error) {
-      console.error("Error updating cursor position:", error);
+      console.error("Error outlining selected block:", error);
     }
   };
 
+  const updateAllCursors = () => {
+    cursors.forEach((_cursor: any, clientId: number) => updateCursorPosition(clientId));
+  };
+
   // Update cursors for all users
   const awarenessChangeHandler = (changes: {
     added: number[];
     updated: number[];
     removed: number[];
   }) => {
-    console.log("Awareness change detected:", changes);
-
     try {
       // Handle new or updated users
       [...changes.added, ...changes.updated].forEach((clientId) => {
         const state = provider.awareness.getStates().get(clientId);
-        // Only process users that aren't the current user and have cursor data
-        if (state && clientId !== provider.awareness.clientID && state.cursor) {
-          if (!cursors.has(clientId)) {
-            // If cursor doesn't exist yet, create it
-            console.log(
-              `Creating new cursor for user ${
-                state.name || "Unknown"
-              } (${clientId})`,
-              state
-            );
-            createCursor(clientId, state);
-          } else {
-            // If cursor already exists, just update its state and position
-            const cursor = cursors.get(clientId);
-            if (cursor) {
-              // Update state data but keep the DOM element the same
-              cursor.state = state;
-              // This will update the position without recreating the element
-              updateCursorPosition(clientId);
-            }
-          }
+        if (!state || clientId === provider.awareness.clientID) return;
+
+        const cursor = cursors.get(clientId);
+        updateFollowing(clientId, state, !!cursor?.state.presenting);
+        if (
+          !cursor ||
+          cursor.state.name !== state.name ||
+          cursor.state.color !== state.color
+        ) {
+          createCursor(clientId, state);
+        } else {
+          // Keep the elements, only move them
+          cursor.state = state;
+          updateCursorPosition(clientId);
         }
       });
 
       // Handle removed users
       changes.removed.forEach((clientId) => {
-        console.log(`Removing cursor for client ${clientId}`);
         removeCursor(clientId);
+        if (clientId === followingClientId) stopFollowing();
       });
 
       // Update the user list
@@ -1523,96 +3831,96 @@ export function setupCursorTracking(
   provider.awareness.getStates().forEach((state: any, clientId: number) => {
     if (clientId !== provider.awareness.clientID) {
       createCursor(clientId, state);
+      updateFollowing(clientId, state, false);
     }
   });
 
   // Initial user list update
   updateUserList();
 
-  // Throttled mouse move handler to reduce network traffic
-  const mouseMoveThrottled = throttle((e: any) => {
+  // Last mouse position, resent when the view moves under a still mouse
+  let lastMouseEvent: MouseEvent | null = null;
+
+  // Share the mouse position in workspace coordinates
+  const sendCursorPosition = (mouseEvent: MouseEvent) => {
     try {
-      // Only track if we have a valid workspace and provider
-      if (!workspace || !provider.awareness || !provider.wsconnected) {
+      const { view, absolute, scale } = getView();
+      const rect = injectionDiv.getBoundingClientRect();
+      const relativeX = mouseEvent.clientX - rect.left - absolute.left;
+      const relativeY = mouseEvent.clientY - rect.top - absolute.top;
+
+      // Over the toolbox or flyout rather than the blocks
+      if (relativeX < 0 || relativeY < 0) {
+        provider.awareness.setLocalStateField("cursor", null);
         return;
       }
 
-      // Get screen coordinates
-      const mouseEvent = e.getBrowserEvent ? e.getBrowserEvent() : e;
-      const mouseX = mouseEvent.clientX;
-      const mouseY = mouseEvent.clientY;
-
-      console.log(`[Cursor Send] Raw Screen Coords: (${mouseX}, ${mouseY})`);
-
-      // Convert screen coordinates to workspace coordinates
-      try {
-        // Get metrics for current viewport state
-        const viewMetrics = workspace.getMetrics();
-        const scale = workspace.scale || 1;
-
-        // Calculate position relative to injection div
-        const injectionDiv = workspace.getInjectionDiv();
-        const rect = injectionDiv.getBoundingClientRect();
-        const relativeX = mouseX - rect.left;
-        const relativeY = mouseY - rect.top;
-
-        // Calculate scroll offsets
-        const scrollLeft = viewMetrics?.viewLeft || 0;
-        const scrollTop = viewMetrics?.viewTop || 0;
-
-        // Convert to workspace coordinates by:
-        // 1. Dividing by scale to account for zoom
-        // 2. Adding scroll offsets to get the absolute workspace position
-        const workspacePosition = {
-          x: relativeX / scale + scrollLeft,
-          y: relativeY / scale + scrollTop,
-        };
-
-        console.log(
-          `[Cursor Send] Workspace Coords: (${workspacePosition.x.toFixed(
-            2
-          )}, ${workspacePosition.y.toFixed(2)})`
-        );
-
-        // Update awareness with new cursor position in workspace coordinates
-        const currentState = provider.awareness.getLocalState() || {};
-        const currentCursor = currentState.cursor || { x: 0, y: 0 };
+      const workspacePosition = {
+        x: view.left + relativeX / scale,
+        y: view.top + relativeY / scale,
+      };
 
-        // Only send updates if position changed significantly to reduce network traffic
-        if (
-          !currentCursor ||
-          Math.abs(currentCursor.x - workspacePosition.x) > 0.1 ||
-          Math.abs(currentCursor.y - workspacePosition.y) > 0.1
-        ) {
-          provider.awareness.setLocalState({
-            ...currentState,
-            cursor: {
-              x: workspacePosition.x,
-              y: workspacePosition.y,
-            },
-          });
-        }
-      } catch (error) {
-        console.error(
-          "Error converting screen to workspace coordinates:",
-          error
-        );
+      // Only send updates if position changed significantly to reduce network traffic
+      const currentCursor = provider.awareness.getLocalState()?.cursor;
+      if (
+        !currentCursor ||
+        Math.abs(currentCursor.x - workspacePosition.x) > 0.1 ||
+        Math.abs(currentCursor.y - workspacePosition.y) > 0.1
+      ) {
+        provider.awareness.setLocalStateField("cursor", workspacePosition);
       }
     } catch (error) {
       console.error("Error tracking mouse position:", error);
     }
-  }, 50); // Throttle to 50ms (20 updates per second)
+  };
+
+  // Throttled mouse move handler to reduce network traffic
+  const mouseMoveThrottled = throttle(sendCursorPosition, 50); // 20 updates per second
 
-  // Set up mouse tracking
-  const onMouseMove = (e: any) => {
+  const onMouseMove = (e: MouseEvent) => {
+    lastMouseEvent = e;
     mouseMoveThrottled(e);
   };
 
-  // Add mouse move listener
-  const injectionDivElement = workspace.getInjectionDiv();
-  if (injectionDivElement) {
-    injectionDivElement.addEventListener("mousemove", onMouseMove);
-  }
+  // Hide the cursor from others while the mouse is elsewhere
+  const onMouseLeave = () => {
+    lastMouseEvent = null;
+    mouseMoveThrottled.cancel();
+    provider.awareness.setLocalStateField("cursor", null);
+  };
+
+  // Scrolling or zooming moves remote cursors on screen, and the local one
+  // in the workspace. Selections and drags are shared as they happen, and
+  // outlines follow the blocks as they change
+  const workspaceListener = (event: any) => {
+    if (event.type === Blockly.Events.SELECTED) {
+      provider.awareness.setLocalStateField("selection", event.newElementId || null);
+    } else if (event.type === Blockly.Events.BLOCK_DRAG) {
+      provider.awareness.setLocalStateField("dragging", event.isStart ? event.blockId : null);
+    }
+
+    if (event.type === Blockly.Events.VIEWPORT_CHANGE) {
+      // Scrolling or zooming on one's own breaks away from the presenter
+      const followed = followedViews.some(
+        (view) =>
+          Math.abs(view.left - event.viewLeft) < 1 &&
+          Math.abs(view.top - event.viewTop) < 1 &&
+          Math.abs(view.scale - event.scale) < 0.001
+      );
+      if (followingClientId !== null && !followed) stopFollowing();
+      sendPresenterView();
+
+      updateAllCursors();
+      if (lastMouseEvent) mouseMoveThrottled(lastMouseEvent);
+    } else if (!event.isUiEvent || event.type === Blockly.Events.BLOCK_DRAG) {
+      cursors.forEach(updateBlockOutline);
+    }
+  };
+
+  injectionDiv.addEventListener("mousemove", onMouseMove);
+  injectionDiv.addEventListener("mouseleave", onMouseLeave);
+  workspace.addChangeListener(workspaceListener);
+  window.addEventListener("resize", updateAllCursors);
 
   // Log connection status changes
   const connectionStatusHandler = (connected: boolean) => {
@@ -1641,22 +3949,22 @@ export function setupCursorTracking(
 
   // Return cleanup function
   return () => {
+    provider.awareness.off("change", awarenessChangeHandler);
+
     // Remove all cursors
     cursors.forEach((cursor, clientId) => {
       removeCursor(clientId);
     });
+    cursorLayer.remove();
 
-    // Remove mouse move event listener
-    const injectionDivElement = workspace.getInjectionDiv();
-    if (injectionDivElement) {
-      injectionDivElement.removeEventListener("mousemove", onMouseMove);
-    }
-
-    // Remove any scroll listeners added to the workspace
-    if (workspace.removeChangeListener) {
-      // We can't remove the specific listener we added, so we'll have to rely on the component unmount
-      // to clean up all change listeners via Blockly's own cleanup
-    }
+    // Stop following the mouse and the view, and any presenter
+    mouseMoveThrottled.cancel();
+    sendPresenterView.cancel();
+    if (followFrame !== null) cancelAnimationFrame(followFrame);
+    injectionDiv.removeEventListener("mousemove", onMouseMove);
+    injectionDiv.removeEventListener("mouseleave", onMouseLeave);
+    workspace.removeChangeListener(workspaceListener);
+    window.removeEventListener("resize", updateAllCursors);
 
     // Remove the user list element
     const userListEl = document.getElementById("blockly-user-list");
@@ -1674,7 +3982,176 @@ export function setupCursorTracking(
   };
 }
 
-// Initialize collaboration for a specific room
+// Reconnect to the collaboration server with exponential backoff: the
+// provider's own quick retries are replaced by RETRY_DELAY, doubled each
+// attempt up to MAX_RETRY_DELAY, for as long as it takes. Edits made
+// meanwhile stay in the local document and merge when the provider syncs
+// again
+export function setupReconnection(
+  provider: any,
+  callback: (state: ConnectionState) => void
+): { reconnect: () => void; cleanup: () => void } {
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const report = (status: ConnectionState["status"], retryAt: number | null = null) => {
+    callback({ status, attempt, retryAt });
+  };
+
+  const clearRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+
+  const reconnect = () => {
+    clearRetry();
+    provider.connect();
+  };
+
+  const closeListener = () => {
+    // Keep the provider from scheduling its own attempt
+    provider.shouldConnect = false;
+    if (retryTimer) return;
+
+    // Without a network the browser's online event starts the next attempt
+    if (!navigator.onLine) {
+      report("offline");
+      return;
+    }
+
+    const delay = Math.min(RETRY_DELAY * Math.pow(2, attempt), MAX_RETRY_DELAY);
+    attempt++;
+    retryTimer = setTimeout(reconnect, delay);
+    report("reconnecting", Date.now() + delay);
+  };
+
+  const statusListener = (event: { status: string }) => {
+    if (event.status === "connected") {
+      clearRetry();
+      attempt = 0;
+      report("connected");
+    }
+  };
+
+  // Try again straight away when the browser gets its network back
+  const onlineListener = () => {
+    attempt = 0;
+    reconnect();
+  };
+
+  provider.on("connection-close", closeListener);
+  provider.on("status", statusListener);
+  window.addEventListener("online", onlineListener);
+
+  if (provider.wsconnected) {
+    report("connected");
+  }
+
+  return {
+    // Try again now, with a fresh set of automatic attempts
+    reconnect: () => {
+      attempt = 0;
+      reconnect();
+    },
+    cleanup: () => {
+      clearRetry();
+      provider.off("connection-close", closeListener);
+      provider.off("status", statusListener);
+      window.removeEventListener("online", onlineListener);
+    },
+  };
+}
+
+// Password of a room's WebRTC fallback. Peers can't check each other's
+// roles, so the rules only give it to those who may change the room, and
+// the first of them to need it makes it. Null when it can't be had
+async function getWebrtcPassword(roomId: string): Promise<string | null> {
+  const secretRef = doc(db, "roomSecrets", roomId);
+  try {
+    const secretSnap = await getDoc(secretRef);
+    if (secretSnap.exists()) return secretSnap.data().password;
+
+    const bytes = new Uint8Array(24);
+    crypto.getRandomValues(bytes);
+    const password = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+    await setDoc(secretRef, { password, createdAt: serverTimestamp() });
+    return password;
+  } catch (error) {
+    // Someone else may have just made it
+    try {
+      const secretSnap = await getDoc(secretRef);
+      if (secretSnap.exists()) return secretSnap.data().password;
+    } catch (retryError) {
+      // Not allowed, or offline
+    }
+    console.warn("No WebRTC password for room", roomId, error);
+    return null;
+  }
+}
+
+// Share the document directly between browsers over WebRTC while the
+// collaboration server can't be reached, e.g. in a classroom LAN without
+// internet. Peers find each other through the signalling servers and only
+// talk to those with the room's password. The password is fetched now,
+// while Firestore can still be reached, and without it there is no
+// fallback. The fallback stays on once started, Yjs merges what arrives
+// over both
+export function setupWebrtcFallback(
+  ydoc: YDoc,
+  provider: any,
+  roomId: string,
+  callback: (active: boolean) => void
+): () => void {
+  let webrtcProvider: any = null;
+  let fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  const password = getWebrtcPassword(roomId);
+
+  const startFallback = async () => {
+    fallbackTimer = null;
+    const roomPassword = await password;
+    if (stopped || !roomPassword || provider.wsconnected || webrtcProvider) return;
+
+    webrtcProvider = safeYjsOperation(
+      () =>
+        new WebrtcProvider(`blockly-${provider.roomname}`, ydoc as any, {
+          signaling: getSignalingUrls(),
+          password: roomPassword,
+          awareness: provider.awareness,
+        }),
+      null
+    );
+    if (webrtcProvider) {
+      console.log("Collaboration server unreachable, sharing changes over WebRTC");
+      callback(true);
+    }
+  };
+
+  const statusListener = (event: { status: string }) => {
+    if (event.status === "connected") {
+      if (fallbackTimer) clearTimeout(fallbackTimer);
+      fallbackTimer = null;
+    } else if (!fallbackTimer && !webrtcProvider) {
+      fallbackTimer = setTimeout(startFallback, WEBRTC_FALLBACK_DELAY);
+    }
+  };
+
+  provider.on("status", statusListener);
+  if (!provider.wsconnected) {
+    fallbackTimer = setTimeout(startFallback, WEBRTC_FALLBACK_DELAY);
+  }
+
+  return () => {
+    stopped = true;
+    if (fallbackTimer) clearTimeout(fallbackTimer);
+    provider.off("status", statusListener);
+    if (webrtcProvider) webrtcProvider.destroy();
+  };
+}
+
+// Initialize collaboration for a specific room. The document opens from
+// this device's copy straight away, so it works offline, and the room's
+// details follow in whenRoomData once Firestore answers
 export async function initCollaboration(
   roomId: string,
   userIdentifier: string,
@@ -1704,10 +4181,10 @@ export async function initCollaboration(
       };
     }
 
-    // Get room data from Firestore
-    const roomData = await getCachedRoomData(roomId);
-    if (!roomData) {
-      console.error("Room not found");
+    // Create Yjs document using safe operation wrapper
+    const ydoc = safeYjsOperation(() => new Y.Doc(), null);
+    if (!ydoc) {
+      console.error("Failed to create Y.js document");
       return {
         ydoc: null,
         provider: null,
@@ -1716,10 +4193,29 @@ export async function initCollaboration(
       };
     }
 
-    // Create Yjs document using safe operation wrapper
-    const ydoc = safeYjsOperation(() => new Y.Doc(), null);
-    if (!ydoc) {
-      console.error("Failed to create Y.js document");
+    // Keep a copy of the document on this device, offline edits survive a
+    // reload and merge with the room once the provider syncs again
+    const localPersistence = safeYjsOperation(
+      () => new IndexeddbPersistence(`blockly-${roomId}`, ydoc),
+      null
+    );
+    if (localPersistence) {
+      await localPersistence.whenSynced;
+    }
+
+    // Look the room up without waiting, offline it may never answer
+    const whenRoomData = getCachedRoomData(roomId).then((roomData) => {
+      if (!roomData) console.warn("Room details unavailable for", roomId);
+      return roomData;
+    });
+
+    // The collaboration server only accepts signed-in members of the room.
+    // Offline the token may not refresh, the provider gets a fresh one
+    // whenever its connection closes
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      console.error("User must be signed in to collaborate");
+      localPersistence?.destroy();
       return {
         ydoc: null,
         provider: null,
@@ -1727,14 +4223,15 @@ export async function initCollaboration(
         connected: false,
       };
     }
+    const idToken = await currentUser.getIdToken().catch((error) => {
+      console.warn("Error getting ID token, connecting without one:", error);
+      return null;
+    });
 
-    // Determine WebSocket URL based on environment
+    // Determine WebSocket URL from the environment
     let websocketUrl = "";
     if (typeof window !== "undefined") {
-      const isProduction = process.env.NODE_ENV === "production";
-      websocketUrl = isProduction
-        ? "wss://blockly-websocket-server.onrender.com"
-        : "ws://localhost:1234";
+      websocketUrl = getWebsocketUrl();
 
       console.log(`Using WebSocket URL: ${websocketUrl}`);
     }
@@ -1756,7 +4253,7 @@ export async function initCollaboration(
         websocketUrl, // Use base URL without any path
         formattedRoomId, // Set the room ID directly as the room name
         ydoc,
-        { connect: true }
+        { connect: true, params: idToken ? { token: idToken } : {} }
       );
     }, null);
 
@@ -1791,6 +4288,14 @@ export async function initCollaboration(
       });
 
       provider.on("connection-close", (event: CloseEvent | null) => {
+        // Reconnect with a fresh ID token, the server refuses expired ones
+        auth.currentUser
+          ?.getIdToken()
+          .then((token) => {
+            provider.params.token = token;
+          })
+          .catch((error) => console.error("Error refreshing ID token:", error));
+
         if (event) {
           console.log(
             `WebSocket connection closed. Code: ${event.code}, Reason: ${event.reason}`
@@ -1824,8 +4329,8 @@ export async function initCollaboration(
       awareness.setLocalState({
         name: userName,
         color: userColor,
-        // Initialize with current cursor position to make it visible immediately
-        cursor: { x: 0, y: 0 },
+        // Workspace coordinates of the mouse, shared once it's over the blocks
+        cursor: null,
       });
 
       // Log awareness state for debugging
@@ -1847,8 +4352,10 @@ export async function initCollaboration(
       ydoc,
       provider,
       awareness,
+      localPersistence,
       connected: provider ? provider.wsconnected : false,
       blockly,
+      whenRoomData,
     };
   } catch (error) {
     console.error("Error initializing collaboration:", error);
@@ -1861,15 +4368,53 @@ export async function initCollaboration(
   }
 }
 
-// Register user presence in a room
+// Add a member to a room by their email, only the room's creator may.
+// The collaboration server only accepts the creator and these members
+export async function addRoomMember(roomId: string, email: string) {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error("User must be signed in to add members");
+  }
+
+  const roomData = await getCachedRoomData(roomId);
+  if (!roomData) {
+    throw new Error("Room not found");
+  }
+  if (roomData.createdBy !== currentUser.uid) {
+    throw new Error("Only the room's creator can add members");
+  }
+
+  const usersQuery = query(
+    collection(db, "users"),
+    where("email", "==", email),
+    limit(1)
+  );
+  const usersSnapshot = await getDocs(usersQuery);
+  if (usersSnapshot.empty) {
+    throw new Error("No user with that email has signed up yet");
+  }
+
+  const userId = usersSnapshot.docs[0].id;
+  const userData = usersSnapshot.docs[0].data();
+  await setDoc(
+    doc(db, "rooms", roomId, "users", userId),
+    {
+      id: userId,
+      name: userData.displayName || email.split("@")[0],
+      email,
+      joinedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  clearRoomCache(roomId);
+}
+
+// Register user presence in a room, member details are kept by the
+// room's creator (see addRoomMember)
 // Debounced to reduce Firestore writes
 export const registerUserPresence = debounce(
-  async (
-    roomId: string,
-    userId: string,
-    userName: string,
-    userEmail: string
-  ) => {
+  async (roomId: string, userId: string) => {
     if (!roomId || !userId) return;
 
     try {
@@ -1891,21 +4436,6 @@ export const registerUserPresence = debounce(
         lastActivity: serverTimestamp(),
       });
 
-      // Store user details in a separate users collection document
-      // This avoids array field manipulation which is expensive in Firestore
-      const userRef = doc(db, "rooms", roomId, "users", userId);
-      await setDoc(
-        userRef,
-        {
-          id: userId,
-          name: userName || "Anonymous",
-          email: userEmail || "",
-          joinedAt: serverTimestamp(),
-          lastActive: serverTimestamp(),
-        },
-        { merge: true }
-      );
-
       // Clear cache to ensure fresh data
       clearRoomCache(roomId);
     } catch (error) {
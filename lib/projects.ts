@@ -1,10 +1,11 @@
 import { 
   collection, doc, getDoc, setDoc, updateDoc, deleteDoc, 
   query, where, orderBy, limit, getDocs, serverTimestamp, 
-  Timestamp, writeBatch
+  Timestamp, writeBatch, onSnapshot, runTransaction
 } from "firebase/firestore";
 import { db, auth } from './firebase';
 import { v4 as uuidv4 } from 'uuid';
+import type { CollaborationLevel } from './collab';
 
 // Types for TypeScript
 export interface Project {
@@ -17,10 +18,13 @@ export interface Project {
   lastModifiedBy: string;
   thumbnail?: string;
   blocklyXml?: string;
+  contentRevision?: number; // Incremented by every content save, see updateProjectContent
   isPublic: boolean;
   collaborators: Collaborator[];
+  memberRoles?: Record<string, Collaborator['role']>; // Roles keyed by user ID, mirrors collaborators for the security rules
   tags?: string[];
   roomId?: string; // Associated room ID for real-time collaboration
+  collaborationLevel?: CollaborationLevel; // Set by the owner, collaborative when missing
 }
 
 export interface Collaborator {
@@ -31,11 +35,73 @@ export interface Collaborator {
   joinedAt: Timestamp;
 }
 
+export interface ProjectVersion {
+  id: string;
+  blocklyXml: string;
+  createdAt: Timestamp;
+  createdBy: string;
+  authorName: string;
+  blockCount: number;
+  thumbnail?: string; // SVG data URL of the blocks
+  reason: 'save' | 'auto' | 'restore';
+}
+
+// Program content captured for a version
+export interface ProjectSnapshot {
+  blocklyXml: string;
+  blockCount: number;
+  thumbnail?: string;
+}
+
+// Thrown when content is saved on top of a revision that was already replaced
+export class ProjectConflictError extends Error {
+  constructor(public currentRevision: number) {
+    super('The project was saved by someone else in the meantime');
+    this.name = 'ProjectConflictError';
+  }
+}
+
 // Constants
 const PROJECTS_COLLECTION = 'projects';
 const USER_PROJECTS_COLLECTION = 'userProjects';
+const VERSIONS_COLLECTION = 'versions';
+const MAX_THUMBNAIL_LENGTH = 100 * 1024; // Keep version documents small
+const MAX_BATCH_WRITES = 500; // Firestore's limit on writes in one batch
 const CACHE_EXPIRY = 5 * 60 * 1000; // 5 minutes cache expiry
 
+/**
+ * Build the memberRoles field that mirrors a collaborators list
+ * Firestore rules can't search a list of maps, so they look roles up here
+ * @param collaborators Project collaborators
+ * @returns Roles keyed by user ID, invited users without an account are left out
+ */
+function getMemberRoles(collaborators: Collaborator[]): Record<string, Collaborator['role']> {
+  const memberRoles: Record<string, Collaborator['role']> = {};
+  collaborators.forEach(c => {
+    if (c.userId) memberRoles[c.userId] = c.role;
+  });
+  return memberRoles;
+}
+
+/**
+ * Add memberRoles to a project created before it existed. Until then the
+ * rules only know the project's creator, who is the one allowed to add it
+ * @param projectId Project ID
+ * @param project Project data as read, updated in place
+ */
+async function backfillMemberRoles(projectId: string, project: Project): Promise<void> {
+  const currentUser = auth.currentUser;
+  if (project.memberRoles || !currentUser || project.createdBy !== currentUser.uid) return;
+  
+  try {
+    const memberRoles = getMemberRoles(project.collaborators);
+    await updateDoc(doc(db, PROJECTS_COLLECTION, projectId), { memberRoles });
+    project.memberRoles = memberRoles;
+  } catch (error) {
+    console.error('Error adding member roles to project:', error);
+  }
+}
+
 // Cache to reduce Firestore reads
 const projectsCache = new Map<string, {data: Project, timestamp: number}>();
 const userProjectsCache = new Map<string, {data: Project[], timestamp: number}>();
@@ -71,6 +137,13 @@ export async function createProject(
   // Create project object
   const now = new Date();
   const timestamp = Timestamp.fromDate(now);
+  const collaborators: Collaborator[] = [{
+    userId: currentUser.uid,
+    email: currentUser.email || 'unknown',
+    name: currentUser.displayName || undefined,
+    role: 'owner',
+    joinedAt: timestamp
+  }];
   const project: Project = {
     id: projectId,
     name,
@@ -81,13 +154,8 @@ export async function createProject(
     lastModifiedBy: currentUser.uid,
     blocklyXml,
     isPublic,
-    collaborators: [{
-      userId: currentUser.uid,
-      email: currentUser.email || 'unknown',
-      name: currentUser.displayName || undefined,
-      role: 'owner',
-      joinedAt: timestamp
-    }],
+    collaborators,
+    memberRoles: getMemberRoles(collaborators),
     tags,
     roomId
   };
@@ -172,6 +240,7 @@ export async function getProject(projectId: string): Promise<Project | null> {
     
     if (projectSnapshot.exists()) {
       const projectData = projectSnapshot.data() as Project;
+      await backfillMemberRoles(projectId, projectData);
       
       // Update cache
       projectsCache.set(projectId, {
@@ -209,6 +278,52 @@ export async function getProject(projectId: string): Promise<Project | null> {
   }
 }
 
+/**
+ * Get a user's role in a project
+ * @param project Project data
+ * @param userId User ID
+ * @returns The collaborator role, 'viewer' for public projects the user hasn't joined, or null
+ */
+export function getUserRole(project: Project, userId: string): Collaborator['role'] | null {
+  const collaborator = project.collaborators.find(c => c.userId === userId);
+  if (collaborator) return collaborator.role;
+  
+  return project.isPublic ? 'viewer' : null;
+}
+
+/**
+ * Subscribe to live changes of a project, e.g. collaborator roles
+ * @param projectId Project ID
+ * @param callback Called with the project data, or null if it was deleted
+ * @returns Unsubscribe function
+ */
+export function subscribeToProject(
+  projectId: string,
+  callback: (project: Project | null) => void
+): () => void {
+  const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
+  
+  return onSnapshot(projectRef, (projectSnapshot) => {
+    if (!projectSnapshot.exists()) {
+      projectsCache.delete(projectId);
+      callback(null);
+      return;
+    }
+    
+    const projectData = projectSnapshot.data() as Project;
+    
+    // Keep the cache in line with what the listener sees
+    projectsCache.set(projectId, {
+      data: projectData,
+      timestamp: Date.now()
+    });
+    
+    callback(projectData);
+  }, (error) => {
+    console.error('Error subscribing to project:', error);
+  });
+}
+
 /**
  * Get all projects for a user
  * @param userId User ID (defaults to current user)
@@ -266,7 +381,7 @@ export async function getUserProjects(userId?: string): Promise<Project[]> {
  */
 export async function updateProject(
   projectId: string, 
-  updates: Partial<Omit<Project, 'id' | 'createdAt' | 'createdBy' | 'collaborators'>>
+  updates: Partial<Omit<Project, 'id' | 'createdAt' | 'createdBy' | 'collaborators' | 'memberRoles'>>
 ): Promise<Project | null> {
   // Check if user is authenticated
   const currentUser = auth.currentUser;
@@ -287,6 +402,12 @@ export async function updateProject(
       throw new Error('You do not have permission to update this project');
     }
     
+    // Editors may only change the program, everything else is up to the owner
+    const editorFields = ['blocklyXml', 'thumbnail'];
+    if (userRole !== 'owner' && Object.keys(updates).some(key => !editorFields.includes(key))) {
+      throw new Error('Only the project owner can change project settings');
+    }
+    
     // Prepare update data
     const updateData = {
       ...updates,
@@ -313,13 +434,72 @@ export async function updateProject(
  * Update project content (Blockly XML)
  * @param projectId Project ID
  * @param blocklyXml New Blockly XML content
+ * @param baseRevision Content revision the XML was built on, the save is
+ *   refused with a ProjectConflictError if the project moved past it
  * @returns Updated project
  */
 export async function updateProjectContent(
   projectId: string, 
-  blocklyXml: string
+  blocklyXml: string,
+  baseRevision?: number
 ): Promise<Project | null> {
-  return updateProject(projectId, { blocklyXml });
+  // Check if user is authenticated
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error('User must be authenticated to update a project');
+  }
+  
+  try {
+    const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
+    
+    // Read and write in one transaction so two clients can't both save on
+    // top of the same revision
+    const updatedProject = await runTransaction(db, async transaction => {
+      const projectSnap = await transaction.get(projectRef);
+      if (!projectSnap.exists()) {
+        throw new Error('Project not found');
+      }
+      
+      const project = projectSnap.data() as Project;
+      const userRole = project.collaborators.find(c => c.userId === currentUser.uid)?.role;
+      if (!userRole || userRole === 'viewer') {
+        throw new Error('You do not have permission to update this project');
+      }
+      
+      const currentRevision = project.contentRevision || 0;
+      if (baseRevision !== undefined && baseRevision !== currentRevision) {
+        throw new ProjectConflictError(currentRevision);
+      }
+      
+      transaction.update(projectRef, {
+        blocklyXml,
+        contentRevision: currentRevision + 1,
+        updatedAt: serverTimestamp(),
+        lastModifiedBy: currentUser.uid
+      });
+      
+      return {
+        ...project,
+        blocklyXml,
+        contentRevision: currentRevision + 1,
+        updatedAt: Timestamp.now(),
+        lastModifiedBy: currentUser.uid
+      };
+    });
+    
+    // Autosave calls this often, so the cache is updated instead of read again
+    projectsCache.set(projectId, {
+      data: updatedProject,
+      timestamp: Date.now()
+    });
+    
+    return updatedProject;
+  } catch (error) {
+    if (!(error instanceof ProjectConflictError)) {
+      console.error('Error updating project content:', error);
+    }
+    throw error;
+  }
 }
 
 /**
@@ -346,6 +526,17 @@ export async function deleteProject(projectId: string): Promise<void> {
       throw new Error('Only the project owner can delete this project');
     }
     
+    // Delete the project's version history first, in batches Firestore
+    // accepts, while the rules can still find the project's owner
+    const versionsSnapshot = await getDocs(collection(db, PROJECTS_COLLECTION, projectId, VERSIONS_COLLECTION));
+    for (let start = 0; start < versionsSnapshot.docs.length; start += MAX_BATCH_WRITES) {
+      const versionsBatch = writeBatch(db);
+      versionsSnapshot.docs
+        .slice(start, start + MAX_BATCH_WRITES)
+        .forEach(versionDoc => versionsBatch.delete(versionDoc.ref));
+      await versionsBatch.commit();
+    }
+    
     // Delete project and all user project references
     const batch = writeBatch(db);
     
@@ -397,10 +588,10 @@ export async function addCollaborator(
       throw new Error('Project not found');
     }
     
-    // Check permissions (only owner or editor can add collaborators)
+    // Check permissions (only owner can add collaborators)
     const userRole = project.collaborators.find(c => c.userId === currentUser.uid)?.role;
-    if (!userRole || (userRole !== 'owner' && userRole !== 'editor')) {
-      throw new Error('You do not have permission to add collaborators');
+    if (userRole !== 'owner') {
+      throw new Error('Only the project owner can add collaborators');
     }
     
     // Check if user already exists as collaborator
@@ -422,9 +613,11 @@ export async function addCollaborator(
       };
       
       // Update project with new collaborator
+      const updatedCollaborators = [...project.collaborators, newCollaborator];
       const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
       await updateDoc(projectRef, {
-        collaborators: [...project.collaborators, newCollaborator]
+        collaborators: updatedCollaborators,
+        memberRoles: getMemberRoles(updatedCollaborators)
       });
     } else {
       // User exists, add them as collaborator
@@ -440,9 +633,11 @@ export async function addCollaborator(
       };
       
       // Update project with new collaborator
+      const updatedCollaborators = [...project.collaborators, newCollaborator];
       const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
       await updateDoc(projectRef, {
-        collaborators: [...project.collaborators, newCollaborator]
+        collaborators: updatedCollaborators,
+        memberRoles: getMemberRoles(updatedCollaborators)
       });
       
       // Add reference to user's projects collection
@@ -509,7 +704,8 @@ export async function removeCollaborator(
     
     const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
     await updateDoc(projectRef, {
-      collaborators: updatedCollaborators
+      collaborators: updatedCollaborators,
+      memberRoles: getMemberRoles(updatedCollaborators)
     });
     
     // Remove project from user's projects collection
@@ -558,7 +754,7 @@ export async function updateCollaboratorRole(
     // Cannot change owner role unless transferring ownership
     if (newRole === 'owner') {
       // This is ownership transfer - current user will become 'editor'
-      const updatedCollaborators = project.collaborators.map(c => {
+      const updatedCollaborators = project.collaborators.map((c): Collaborator => {
         if (c.userId === collaboratorId) {
           return { ...c, role: 'owner' };
         } else if (c.userId === currentUser.uid) {
@@ -567,14 +763,16 @@ export async function updateCollaboratorRole(
         return c;
       });
       
+      // Update the project and user project references together, the
+      // security rules check ownership against the state before the batch
+      const batch = writeBatch(db);
+      
       const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
-      await updateDoc(projectRef, {
-        collaborators: updatedCollaborators
+      batch.update(projectRef, {
+        collaborators: updatedCollaborators,
+        memberRoles: getMemberRoles(updatedCollaborators)
       });
       
-      // Update user project references
-      const batch = writeBatch(db);
-      
       const newOwnerProjectRef = doc(db, 'users', collaboratorId, USER_PROJECTS_COLLECTION, projectId);
       batch.update(newOwnerProjectRef, { role: 'owner' });
       
@@ -603,7 +801,8 @@ export async function updateCollaboratorRole(
       
       const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
       await updateDoc(projectRef, {
-        collaborators: updatedCollaborators
+        collaborators: updatedCollaborators,
+        memberRoles: getMemberRoles(updatedCollaborators)
       });
       
       // Update user project reference
@@ -650,8 +849,11 @@ export async function generateShareableLink(
       throw new Error('You do not have permission to generate shareable links');
     }
     
-    // If makePublic is true, update project visibility
+    // If makePublic is true, update project visibility (owner only)
     if (makePublic && !project.isPublic) {
+      if (userRole !== 'owner') {
+        throw new Error('Only the project owner can make the project public');
+      }
       await updateProject(projectId, { isPublic: true });
     }
     
@@ -703,9 +905,11 @@ export async function joinProjectFromLink(projectId: string): Promise<Project |
     };
     
     // Update project with new collaborator
+    const updatedCollaborators = [...project.collaborators, newCollaborator];
     const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
     await updateDoc(projectRef, {
-      collaborators: [...project.collaborators, newCollaborator]
+      collaborators: updatedCollaborators,
+      memberRoles: getMemberRoles(updatedCollaborators)
     });
     
     // Add reference to user's projects collection
@@ -728,3 +932,69 @@ export async function joinProjectFromLink(projectId: string): Promise<Project |
     throw error;
   }
 }
+
+/**
+ * Record a version of a project's program
+ * @param projectId Project ID
+ * @param snapshot Program content to keep
+ * @param reason Why the version was taken
+ * @returns The new version
+ */
+export async function createProjectVersion(
+  projectId: string,
+  snapshot: ProjectSnapshot,
+  reason: ProjectVersion['reason'] = 'save'
+): Promise<ProjectVersion> {
+  // Check if user is authenticated
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error('User must be authenticated to save versions');
+  }
+  
+  const versionId = uuidv4();
+  const version: ProjectVersion = {
+    id: versionId,
+    blocklyXml: snapshot.blocklyXml,
+    createdAt: Timestamp.fromDate(new Date()),
+    createdBy: currentUser.uid,
+    authorName: currentUser.displayName || currentUser.email?.split('@')[0] || 'Anonymous',
+    blockCount: snapshot.blockCount,
+    reason
+  };
+  
+  // Large workspaces are stored without a thumbnail
+  if (snapshot.thumbnail && snapshot.thumbnail.length <= MAX_THUMBNAIL_LENGTH) {
+    version.thumbnail = snapshot.thumbnail;
+  }
+  
+  try {
+    const versionRef = doc(db, PROJECTS_COLLECTION, projectId, VERSIONS_COLLECTION, versionId);
+    await setDoc(versionRef, version);
+    return version;
+  } catch (error) {
+    console.error('Error creating project version:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the version history of a project, newest first
+ * @param projectId Project ID
+ * @param maxVersions Maximum number of versions to return
+ * @returns Array of versions
+ */
+export async function getProjectVersions(
+  projectId: string,
+  maxVersions: number = 50
+): Promise<ProjectVersion[]> {
+  try {
+    const versionsRef = collection(db, PROJECTS_COLLECTION, projectId, VERSIONS_COLLECTION);
+    const versionsQuery = query(versionsRef, orderBy('createdAt', 'desc'), limit(maxVersions));
+    const versionsSnapshot = await getDocs(versionsQuery);
+    
+    return versionsSnapshot.docs.map(versionDoc => versionDoc.data() as ProjectVersion);
+  } catch (error) {
+    console.error('Error getting project versions:', error);
+    return [];
+  }
+}
@@ -0,0 +1,105 @@
+// Turtle graphics blocks. Programs with them run on the stage (see
+// components/TurtleStage.tsx and logovm/compiler.ts), the code view shows
+// them as calls on a `turtle` object
+
+export const TURTLE_CATEGORY_COLOUR = '#2E9E7A';
+
+const distanceBlock = (type: string, label: string) => ({
+  type,
+  message0: `${label} %1 steps`,
+  args0: [{ type: 'input_value', name: 'STEPS', check: 'Number' }],
+  previousStatement: null,
+  nextStatement: null,
+  colour: TURTLE_CATEGORY_COLOUR,
+  tooltip: `Move the ship ${label}, drawing a line while the pen is down`,
+});
+
+const turnBlock = (type: string, label: string) => ({
+  type,
+  message0: `turn ${label} %1 degrees`,
+  args0: [{ type: 'input_value', name: 'DEGREES', check: 'Number' }],
+  previousStatement: null,
+  nextStatement: null,
+  colour: TURTLE_CATEGORY_COLOUR,
+  tooltip: `Turn the ship to the ${label}`,
+});
+
+const simpleBlock = (type: string, message0: string, tooltip: string) => ({
+  type,
+  message0,
+  previousStatement: null,
+  nextStatement: null,
+  colour: TURTLE_CATEGORY_COLOUR,
+  tooltip,
+});
+
+export const TURTLE_BLOCKS = [
+  distanceBlock('turtle_forward', 'forward'),
+  distanceBlock('turtle_back', 'back'),
+  turnBlock('turtle_left', 'left'),
+  turnBlock('turtle_right', 'right'),
+  simpleBlock('turtle_pen_up', 'pen up', 'Move without drawing'),
+  simpleBlock('turtle_pen_down', 'pen down', 'Draw a line wherever the ship goes'),
+  {
+    type: 'turtle_pen_colour',
+    message0: 'set pen colour to %1',
+    args0: [{ type: 'field_colour', name: 'COLOUR', colour: '#ffcc00' }],
+    previousStatement: null,
+    nextStatement: null,
+    colour: TURTLE_CATEGORY_COLOUR,
+    tooltip: 'Draw the next lines in this colour',
+  },
+  simpleBlock('turtle_home', 'go home', 'Go back to the middle of the stage, facing up'),
+  simpleBlock('turtle_clear', 'clear drawing', 'Wipe the drawing, the ship stays where it is'),
+];
+
+const numberInput = (type: string, name: string, value: number) => ({
+  kind: 'block',
+  type,
+  inputs: { [name]: { shadow: { type: 'math_number', fields: { NUM: value } } } },
+});
+
+// Toolbox category, see getToolboxConfiguration in BlocklyWorkspace
+export const TURTLE_TOOLBOX_CATEGORY = {
+  kind: 'category',
+  name: 'Turtle',
+  colour: TURTLE_CATEGORY_COLOUR,
+  contents: [
+    numberInput('turtle_forward', 'STEPS', 50),
+    numberInput('turtle_back', 'STEPS', 50),
+    numberInput('turtle_left', 'DEGREES', 90),
+    numberInput('turtle_right', 'DEGREES', 90),
+    { kind: 'block', type: 'turtle_pen_up' },
+    { kind: 'block', type: 'turtle_pen_down' },
+    { kind: 'block', type: 'turtle_pen_colour' },
+    { kind: 'block', type: 'turtle_home' },
+    { kind: 'block', type: 'turtle_clear' },
+  ],
+};
+
+// Define the blocks and their JavaScript, once per page
+export const registerTurtleBlocks = (Blockly: any, BlocklyJS?: any) => {
+  if (!Blockly.Blocks.turtle_forward) {
+    Blockly.common.defineBlocksWithJsonArray(TURTLE_BLOCKS);
+  }
+  if (!BlocklyJS || BlocklyJS.javascriptGenerator.forBlock.turtle_forward) return;
+
+  const { javascriptGenerator, Order } = BlocklyJS;
+  const valueOf = (block: any, generator: any, input: string) =>
+    generator.valueToCode(block, input, Order.NONE) || '0';
+
+  javascriptGenerator.forBlock.turtle_forward = (block: any, generator: any) =>
+    `turtle.forward(${valueOf(block, generator, 'STEPS')});\n`;
+  javascriptGenerator.forBlock.turtle_back = (block: any, generator: any) =>
+    `turtle.back(${valueOf(block, generator, 'STEPS')});\n`;
+  javascriptGenerator.forBlock.turtle_left = (block: any, generator: any) =>
+    `turtle.left(${valueOf(block, generator, 'DEGREES')});\n`;
+  javascriptGenerator.forBlock.turtle_right = (block: any, generator: any) =>
+    `turtle.right(${valueOf(block, generator, 'DEGREES')});\n`;
+  javascriptGenerator.forBlock.turtle_pen_up = () => 'turtle.penUp();\n';
+  javascriptGenerator.forBlock.turtle_pen_down = () => 'turtle.penDown();\n';
+  javascriptGenerator.forBlock.turtle_pen_colour = (block: any, generator: any) =>
+    `turtle.setPenColour(${generator.quote_(block.getFieldValue('COLOUR'))});\n`;
+  javascriptGenerator.forBlock.turtle_home = () => 'turtle.home();\n';
+  javascriptGenerator.forBlock.turtle_clear = () => 'turtle.clear();\n';
+};
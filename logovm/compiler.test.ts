@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import { CompileError, compile, compileUnlinked, WorkspaceState } from './compiler';
+import { OpCodes } from './vm';
+import { block, loadProgram, num, plug, stack, statements, variable, workspace } from './testHelpers';
+
+const forward = (steps: number, id?: string) => block('turtle_forward', { id, inputs: { STEPS: num(steps) } });
+const right = (degrees: number, id?: string) => block('turtle_right', { id, inputs: { DEGREES: num(degrees) } });
+
+const repeat = (times: number, ...body: ReturnType<typeof block>[]) =>
+  block('controls_repeat_ext', { inputs: { TIMES: num(times), DO: statements(...body) } });
+
+const run = (source: WorkspaceState) => {
+  const program = compile(source);
+  const loaded = loadProgram(program);
+  loaded.vm.run();
+  return { program, ...loaded };
+};
+
+const compileError = (source: WorkspaceState) => {
+  try {
+    compile(source);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CompileError);
+    return error as CompileError;
+  }
+  throw new Error('Expected the workspace not to compile');
+};
+
+const squareCalls = ['fd 10', 'rt 90', 'fd 10', 'rt 90', 'fd 10', 'rt 90', 'fd 10', 'rt 90'];
+
+describe('compile', () => {
+  it('compiles repeat 4 [fd 10 rt 90]', () => {
+    const { vm, calls, state } = run(workspace([repeat(4, forward(10), right(90))]));
+
+    expect(vm.status).toBe('done');
+    expect(calls).toEqual(squareCalls);
+    expect(state.heading).toBe(0);
+  });
+
+  it('compiles functions with inputs that output a value', () => {
+    // to double :n output :n * 2, set total to double 21, then fd total
+    const n = { id: 'n', name: 'n' };
+    const double = block('procedures_defreturn', {
+      fields: { NAME: 'double' },
+      extraState: { params: [n] },
+      inputs: {
+        RETURN: plug(
+          block('math_arithmetic', {
+            fields: { OP: 'MULTIPLY' },
+            inputs: { A: plug(block('variables_get', { fields: { VAR: variable('n') } })), B: num(2) },
+          })
+        ),
+      },
+    });
+    const main = stack(
+      block('variables_set', {
+        fields: { VAR: variable('total') },
+        inputs: {
+          VALUE: plug(
+            block('procedures_callreturn', {
+              extraState: { name: 'double', params: ['n'] },
+              inputs: { ARG0: num(21) },
+            })
+          ),
+        },
+      }),
+      block('turtle_forward', {
+        inputs: { STEPS: plug(block('variables_get', { fields: { VAR: variable('total') } })) },
+      })
+    );
+
+    const { program, vm, calls } = run(
+      workspace([{ ...main, y: 100 }, { ...double, y: 0 }], [{ name: 'total', id: 'total' }])
+    );
+
+    expect(calls).toEqual(['fd 42']);
+    expect(program.functions).toEqual({ double: 0 });
+    expect(program.inputs).toEqual({ 0: ['n'] });
+    expect(program.globals).toEqual(['total']);
+    expect(vm.globals[0]).toBe(42);
+  });
+
+  it('calls functions defined below the main program', () => {
+    const square = block('procedures_defnoreturn', {
+      fields: { NAME: 'square' },
+      inputs: { STACK: statements(repeat(4, forward(10), right(90))) },
+    });
+    const call = block('procedures_callnoreturn', { extraState: { name: 'square' } });
+
+    const { calls } = run(workspace([{ ...call, y: 0 }, { ...square, y: 200 }]));
+
+    expect(calls).toEqual(squareCalls);
+  });
+
+  it('counts down in a for loop', () => {
+    const loop = block('controls_for', {
+      fields: { VAR: variable('i') },
+      inputs: {
+        FROM: num(3),
+        TO: num(1),
+        BY: num(1),
+        DO: statements(
+          block('turtle_forward', {
+            inputs: { STEPS: plug(block('variables_get', { fields: { VAR: variable('i') } })) },
+          })
+        ),
+      },
+    });
+
+    const { calls } = run(workspace([loop], [{ name: 'i', id: 'i' }]));
+
+    expect(calls).toEqual(['fd 3', 'fd 2', 'fd 1']);
+  });
+
+  it('runs the first branch of if / else if / else whose condition holds', () => {
+    const compare = (a: number, b: number) =>
+      plug(block('logic_compare', { fields: { OP: 'LT' }, inputs: { A: num(a), B: num(b) } }));
+    const choose = (first: boolean, second: boolean) =>
+      block('controls_if', {
+        extraState: { elseIfCount: 1, hasElse: true },
+        inputs: {
+          IF0: compare(first ? 1 : 2, 2),
+          DO0: statements(forward(1)),
+          IF1: compare(second ? 1 : 2, 2),
+          DO1: statements(forward(2)),
+          ELSE: statements(forward(3)),
+        },
+      });
+
+    expect(run(workspace([choose(true, true)])).calls).toEqual(['fd 1']);
+    expect(run(workspace([choose(false, true)])).calls).toEqual(['fd 2']);
+    expect(run(workspace([choose(false, false)])).calls).toEqual(['fd 3']);
+
+    const withoutElse = block('controls_if', { inputs: { IF0: compare(2, 2), DO0: statements(forward(1)) } });
+    const { vm, calls } = run(workspace([stack(withoutElse, forward(4))]));
+    expect(calls).toEqual(['fd 4']);
+    expect(vm.sp).toBe(0);
+  });
+
+  it('runs stacks top to bottom, then left to right, and ignores loose values', () => {
+    const { calls } = run(
+      workspace([
+        { ...forward(3), x: 0, y: 50 },
+        { ...forward(2), x: 100, y: 0 },
+        { ...forward(1), x: 0, y: 0 },
+        { ...block('math_number', { fields: { NUM: 7 } }), x: 0, y: 25 },
+      ])
+    );
+
+    expect(calls).toEqual(['fd 1', 'fd 2', 'fd 3']);
+  });
+
+  it('skips disabled blocks and uses the fallback for disabled values', () => {
+    const { calls } = run(
+      workspace([
+        stack(
+          forward(1),
+          { ...forward(2), enabled: false },
+          block('turtle_forward', {
+            inputs: { STEPS: { block: block('math_number', { enabled: false, fields: { NUM: 5 } }) } },
+          })
+        ),
+        { ...forward(4), y: 100, enabled: false },
+      ])
+    );
+
+    expect(calls).toEqual(['fd 1', 'fd 0']);
+  });
+
+  it('maps each address to the block it came from', () => {
+    const program = compile(workspace([stack(forward(10, 'fd'), right(90, 'rt'))]));
+
+    expect(program.memory).toEqual([OpCodes.DATA, 10, expect.any(Number), OpCodes.DATA, 90, expect.any(Number), OpCodes.DONE]);
+    expect(program.sourceMap[2]).toBe('fd');
+    expect(program.sourceMap[5]).toBe('rt');
+    expect(program.sourceMap[6]).toBeNull();
+    // The number shadows are blocks of their own
+    expect(program.sourceMap[0]).not.toBe('fd');
+  });
+
+  it('leaves calls unlinked until link', () => {
+    const call = block('procedures_callnoreturn', { id: 'call', extraState: { name: 'square' } });
+    const program = compileUnlinked(workspace([call]));
+
+    expect(program.calls).toEqual([{ address: 1, name: 'square', blockId: 'call' }]);
+    expect(program.memory[1]).toBe('square');
+  });
+
+  it('reports the block that stops a program compiling', () => {
+    expect(compileError(workspace([block('unknown_block', { id: 'odd' })]))).toMatchObject({
+      message: '"unknown_block" blocks can\'t run yet',
+      blockId: 'odd',
+    });
+
+    const definition = (id: string, y: number) =>
+      block('procedures_defnoreturn', { id, y, fields: { NAME: 'square' } });
+    expect(compileError(workspace([definition('first', 0), definition('second', 100)]))).toMatchObject({
+      message: 'There are two functions called square',
+      blockId: 'second',
+    });
+
+    const call = block('procedures_callnoreturn', { id: 'call', extraState: { name: 'circle' } });
+    expect(compileError(workspace([call]))).toMatchObject({
+      message: "There's no function called circle",
+      blockId: 'call',
+    });
+
+    const ifReturn = block('procedures_ifreturn', { id: 'return' });
+    expect(compileError(workspace([ifReturn]))).toMatchObject({ blockId: 'return' });
+  });
+});
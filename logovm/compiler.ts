@@ -0,0 +1,569 @@
+// Compiler from Blockly programs to LogoVM instruction memory
+//
+// Procedure definitions are compiled first, each to its own place in
+// instruction memory, and their addresses recorded in the output map. The
+// other block stacks follow as the main program, in the order they're laid
+// out top to bottom. Calls are compiled with the name of the procedure and
+// linked afterwards, swapping in its address from the output map.
+//
+// The source map holds the ID of the block every instruction came from, so
+// an error at some address can be shown on its block.
+
+import { Instruction, LogoValue, OpCodes } from './vm';
+import { OperatorOpCodes, TurtleOpCodes } from './primitives';
+
+// Blocks as saved by Blockly.serialization.workspaces.save
+export interface BlockState {
+  type: string;
+  id: string;
+  x?: number;
+  y?: number;
+  enabled?: boolean;
+  fields?: Record<string, any>;
+  inputs?: Record<string, { block?: BlockState; shadow?: BlockState }>;
+  next?: { block?: BlockState; shadow?: BlockState };
+  extraState?: any;
+}
+
+export interface WorkspaceState {
+  blocks?: { blocks: BlockState[] };
+  variables?: { name: string; id: string; type?: string }[];
+}
+
+export interface CompiledProgram {
+  memory: Instruction[];
+  entry: number; // Address of the main program
+  functions: Record<string, number>; // Output map of procedure names to addresses
+  sourceMap: (string | null)[]; // Block ID for every address
+  globals: string[]; // Names of the global variables by slot
+  inputs: Record<number, string[]>; // Input names of each procedure, by its address
+}
+
+// Thrown for programs that can't be compiled, blockId is the culprit
+export class CompileError extends Error {
+  constructor(message: string, public blockId: string | null) {
+    super(message);
+    this.name = 'CompileError';
+  }
+}
+
+// Calls to procedures whose address isn't known until everything is compiled
+interface CallSite {
+  address: number; // Of the CALLFUNC operand
+  name: string;
+  blockId: string;
+}
+
+// A compiled program before its calls are linked
+export interface UnlinkedProgram extends CompiledProgram {
+  calls: CallSite[];
+}
+
+// What block compilers use to emit the code of their block
+export interface CompileContext {
+  emit: (...words: Instruction[]) => void;
+  // Code leaving the value of an input on the stack, or the fallback when
+  // nothing is plugged in
+  value: (input: string, fallback: LogoValue) => void;
+  // Code of the statements in an input, in place or as an instruction list
+  statements: (input: string) => void;
+  list: (input: string) => void;
+  // Code of an instruction list built by the callback
+  listOf: (body: () => void) => void;
+  getVariable: (field: string) => void;
+  setVariable: (field: string) => void;
+  // A hidden local variable, e.g. for the end of a count loop
+  newLocal: () => number;
+  call: (name: string) => void;
+  block: BlockState;
+  procedure: { returnsValue: boolean } | null;
+}
+
+type BlockCompiler = (context: CompileContext) => void;
+
+// Variables of a procedure's frame, or of the main program's
+interface Scope {
+  locals: Map<string, number>; // Slots by variable ID
+  nextLocal: number;
+  procedure: { returnsValue: boolean } | null;
+}
+
+// Block types that report a value, the rest are statements
+const VALUE_BLOCKS = new Set([
+  'logic_compare',
+  'logic_operation',
+  'logic_negate',
+  'logic_boolean',
+  'math_number',
+  'math_arithmetic',
+  'math_single',
+  'math_round',
+  'text',
+  'text_join',
+  'text_length',
+  'variables_get',
+  'procedures_callreturn',
+]);
+
+const PROCEDURE_DEFINITIONS = ['procedures_defnoreturn', 'procedures_defreturn'];
+
+const ARITHMETIC: Record<string, number> = {
+  ADD: OperatorOpCodes.ADD,
+  MINUS: OperatorOpCodes.SUB,
+  MULTIPLY: OperatorOpCodes.MUL,
+  DIVIDE: OperatorOpCodes.DIV,
+  POWER: OperatorOpCodes.POW,
+};
+
+const SINGLE: Record<string, number> = {
+  ROOT: OperatorOpCodes.SQRT,
+  ABS: OperatorOpCodes.ABS,
+  NEG: OperatorOpCodes.NEG,
+  LN: OperatorOpCodes.LN,
+  LOG10: OperatorOpCodes.LOG10,
+  EXP: OperatorOpCodes.EXP,
+  POW10: OperatorOpCodes.POW10,
+  ROUND: OperatorOpCodes.ROUND,
+  ROUNDUP: OperatorOpCodes.ROUNDUP,
+  ROUNDDOWN: OperatorOpCodes.ROUNDDOWN,
+};
+
+const COMPARE: Record<string, number> = {
+  EQ: OperatorOpCodes.EQ,
+  NEQ: OperatorOpCodes.NEQ,
+  LT: OperatorOpCodes.LT,
+  LTE: OperatorOpCodes.LTE,
+  GT: OperatorOpCodes.GT,
+  GTE: OperatorOpCodes.GTE,
+};
+
+// Field values that must be one of a table's keys
+const lookup = (table: Record<string, number>, { block }: CompileContext, field: string) => {
+  const opcode = table[block.fields?.[field]];
+  if (opcode === undefined) {
+    throw new CompileError(`Unknown operator ${block.fields?.[field]}`, block.id);
+  }
+  return opcode;
+};
+
+const blockCompilers: Record<string, BlockCompiler> = {
+  // Logic
+  controls_if: (context) => {
+    const { block } = context;
+    const conditions = (block.extraState?.elseIfCount || 0) + 1;
+
+    // if a [x] else if b [y] else [z] runs as ifelse a [x] [ifelse b [y] [z]],
+    // the last branch is already inside the list of the one before it
+    const branch = (index: number) => {
+      if (index === conditions) {
+        if (block.extraState?.hasElse) context.statements('ELSE');
+        return;
+      }
+      context.value(`IF${index}`, false);
+      context.list(`DO${index}`);
+      context.listOf(() => branch(index + 1));
+      context.emit(OpCodes.IFELSE);
+    };
+    branch(0);
+  },
+  logic_compare: (context) => {
+    context.value('A', 0);
+    context.value('B', 0);
+    context.emit(lookup(COMPARE, context, 'OP'));
+  },
+  logic_operation: (context) => {
+    context.value('A', false);
+    context.value('B', false);
+    context.emit(context.block.fields?.OP === 'OR' ? OperatorOpCodes.OR : OperatorOpCodes.AND);
+  },
+  logic_negate: (context) => {
+    context.value('BOOL', false);
+    context.emit(OperatorOpCodes.NOT);
+  },
+  logic_boolean: (context) => {
+    context.emit(OpCodes.DATA, context.block.fields?.BOOL === 'TRUE');
+  },
+
+  // Loops
+  controls_repeat_ext: (context) => {
+    context.value('TIMES', 0);
+    context.list('DO');
+    context.emit(OpCodes.REPEAT);
+  },
+  controls_whileUntil: (context) => {
+    context.listOf(() => {
+      context.value('BOOL', false);
+      if (context.block.fields?.MODE === 'UNTIL') context.emit(OperatorOpCodes.NOT);
+    });
+    context.list('DO');
+    context.emit(OpCodes.WHILE);
+  },
+  controls_for: (context) => {
+    const end = context.newLocal();
+    const step = context.newLocal();
+
+    context.value('FROM', 0);
+    context.setVariable('VAR');
+    context.value('TO', 0);
+    context.emit(OpCodes.LSET, end);
+    context.getVariable('VAR');
+    context.emit(OpCodes.LGET, end);
+    context.value('BY', 1);
+    context.emit(OperatorOpCodes.FORSTEP, OpCodes.LSET, step);
+
+    // Go on while the variable hasn't passed the end: (end - var) * step >= 0
+    context.listOf(() => {
+      context.emit(OpCodes.LGET, end);
+      context.getVariable('VAR');
+      context.emit(OperatorOpCodes.SUB, OpCodes.LGET, step, OperatorOpCodes.MUL);
+      context.emit(OpCodes.DATA, 0, OperatorOpCodes.GTE);
+    });
+    context.listOf(() => {
+      context.statements('DO');
+      context.getVariable('VAR');
+      context.emit(OpCodes.LGET, step, OperatorOpCodes.ADD);
+      context.setVariable('VAR');
+    });
+    context.emit(OpCodes.WHILE);
+  },
+
+  // Math
+  math_number: (context) => {
+    context.emit(OpCodes.DATA, Number(context.block.fields?.NUM) || 0);
+  },
+  math_arithmetic: (context) => {
+    context.value('A', 0);
+    context.value('B', 0);
+    context.emit(lookup(ARITHMETIC, context, 'OP'));
+  },
+  math_single: (context) => {
+    context.value('NUM', 0);
+    context.emit(lookup(SINGLE, context, 'OP'));
+  },
+  math_round: (context) => {
+    context.value('NUM', 0);
+    context.emit(lookup(SINGLE, context, 'OP'));
+  },
+
+  // Text
+  text: (context) => {
+    context.emit(OpCodes.DATA, String(context.block.fields?.TEXT ?? ''));
+  },
+  text_join: (context) => {
+    context.emit(OpCodes.DATA, '');
+    const items = context.block.extraState?.itemCount ?? 2;
+    for (let i = 0; i < items; i++) {
+      context.value(`ADD${i}`, '');
+      context.emit(OperatorOpCodes.JOIN);
+    }
+  },
+  text_append: (context) => {
+    context.getVariable('VAR');
+    context.value('TEXT', '');
+    context.emit(OperatorOpCodes.JOIN);
+    context.setVariable('VAR');
+  },
+  text_length: (context) => {
+    context.value('VALUE', '');
+    context.emit(OperatorOpCodes.LENGTH);
+  },
+
+  // Variables
+  variables_get: (context) => {
+    context.getVariable('VAR');
+  },
+  variables_set: (context) => {
+    context.value('VALUE', 0);
+    context.setVariable('VAR');
+  },
+  math_change: (context) => {
+    context.getVariable('VAR');
+    context.value('DELTA', 1);
+    context.emit(OperatorOpCodes.ADD);
+    context.setVariable('VAR');
+  },
+
+  // Functions
+  procedures_callnoreturn: (context) => {
+    const params: string[] = context.block.extraState?.params || [];
+    params.forEach((_param, i) => context.value(`ARG${i}`, 0));
+    context.call(context.block.extraState?.name);
+  },
+  procedures_callreturn: (context) => {
+    blockCompilers.procedures_callnoreturn(context);
+  },
+  procedures_ifreturn: (context) => {
+    const { block, procedure } = context;
+    if (!procedure) {
+      throw new CompileError('Return can only be used inside a function', block.id);
+    }
+
+    context.value('CONDITION', false);
+    context.listOf(() => {
+      if (procedure.returnsValue) {
+        context.value('VALUE', 0);
+        context.emit(OpCodes.EOLR);
+      } else {
+        context.emit(OpCodes.STOP);
+      }
+    });
+    context.emit(OpCodes.IF);
+  },
+
+  // Turtle, see lib/turtleBlocks.ts
+  turtle_forward: (context) => {
+    context.value('STEPS', 0);
+    context.emit(TurtleOpCodes.FD);
+  },
+  turtle_back: (context) => {
+    context.value('STEPS', 0);
+    context.emit(TurtleOpCodes.BK);
+  },
+  turtle_left: (context) => {
+    context.value('DEGREES', 0);
+    context.emit(TurtleOpCodes.LT);
+  },
+  turtle_right: (context) => {
+    context.value('DEGREES', 0);
+    context.emit(TurtleOpCodes.RT);
+  },
+  turtle_pen_up: (context) => {
+    context.emit(TurtleOpCodes.PENUP);
+  },
+  turtle_pen_down: (context) => {
+    context.emit(TurtleOpCodes.PENDOWN);
+  },
+  turtle_pen_colour: (context) => {
+    context.emit(OpCodes.DATA, String(context.block.fields?.COLOUR || '#000000'));
+    context.emit(TurtleOpCodes.PENCOLOUR);
+  },
+  turtle_home: (context) => {
+    context.emit(TurtleOpCodes.HOME);
+  },
+  turtle_clear: (context) => {
+    context.emit(TurtleOpCodes.CLEAR);
+  },
+};
+
+// The variable ID in a variable field, saved workspaces keep { id }
+const getVariableId = (value: any): string | undefined =>
+  typeof value === 'object' && value ? value.id : value;
+
+const getInputBlock = (block: BlockState, input: string) => {
+  const target = block.inputs?.[input];
+  return target?.block || target?.shadow;
+};
+
+const getNextBlock = (block: BlockState) => block.next?.block || block.next?.shadow;
+
+// Compile block stacks without linking them, see link
+export function compileUnlinked(workspace: WorkspaceState): UnlinkedProgram {
+  const memory: Instruction[] = [];
+  const sourceMap: (string | null)[] = [];
+  const functions: Record<string, number> = {};
+  const inputs: Record<number, string[]> = {};
+  const calls: CallSite[] = [];
+
+  const variableNames = new Map<string, string>();
+  (workspace.variables || []).forEach((variable) => {
+    variableNames.set(variable.id, variable.name);
+  });
+
+  // Global variables get their slots as they're first used
+  const globalSlots = new Map<string, number>();
+  const globals: string[] = [];
+
+  const emitFor = (blockId: string | null, ...words: Instruction[]) => {
+    words.forEach((word) => {
+      memory.push(word);
+      sourceMap.push(blockId);
+    });
+  };
+
+  const compileBlock = (block: BlockState, scope: Scope) => {
+    const compiler = blockCompilers[block.type];
+    if (!compiler) {
+      throw new CompileError(`"${block.type}" blocks can't run yet`, block.id);
+    }
+
+    const emit = (...words: Instruction[]) => emitFor(block.id, ...words);
+
+    const statements = (input: string) => compileStatements(getInputBlock(block, input), scope);
+
+    const listOf = (body: () => void) => {
+      emit(OpCodes.ILIST, 0);
+      const start = memory.length;
+      body();
+      emit(OpCodes.EOL);
+      memory[start - 1] = memory.length - start;
+    };
+
+    const getVariableSlot = (field: string) => {
+      const id = getVariableId(block.fields?.[field]);
+      if (!id) throw new CompileError('Pick a variable', block.id);
+
+      if (scope.locals.has(id)) {
+        return { local: true, slot: scope.locals.get(id) as number };
+      }
+      if (!globalSlots.has(id)) {
+        globalSlots.set(id, globals.length);
+        globals.push(variableNames.get(id) || id);
+      }
+      return { local: false, slot: globalSlots.get(id) as number };
+    };
+
+    compiler({
+      emit,
+      value: (input, fallback) => compileValue(getInputBlock(block, input), fallback, scope),
+      statements,
+      list: (input) => listOf(() => statements(input)),
+      listOf,
+      getVariable: (field) => {
+        const { local, slot } = getVariableSlot(field);
+        emit(local ? OpCodes.LGET : OpCodes.GGET, slot);
+      },
+      setVariable: (field) => {
+        const { local, slot } = getVariableSlot(field);
+        emit(local ? OpCodes.LSET : OpCodes.GSET, slot);
+      },
+      newLocal: () => scope.nextLocal++,
+      call: (name) => {
+        if (!name) throw new CompileError('Pick a function to call', block.id);
+        emit(OpCodes.CALLFUNC);
+        calls.push({ address: memory.length, name, blockId: block.id });
+        emit(name);
+      },
+      block,
+      procedure: scope.procedure,
+    });
+  };
+
+  // Disabled blocks are skipped, like the code generators do
+  const compileStatements = (first: BlockState | undefined, scope: Scope) => {
+    for (let block = first; block; block = getNextBlock(block)) {
+      if (block.enabled !== false) compileBlock(block, scope);
+    }
+  };
+
+  const compileValue = (
+    block: BlockState | undefined,
+    fallback: LogoValue,
+    scope: Scope
+  ) => {
+    if (block && block.enabled !== false) {
+      compileBlock(block, scope);
+    } else {
+      emitFor(block?.id || null, OpCodes.DATA, fallback);
+    }
+  };
+
+  // Blocks in the order they're laid out, like workspace.getTopBlocks(true)
+  const topBlocks = (workspace.blocks?.blocks || [])
+    .filter((block) => block.enabled !== false)
+    .sort((a, b) => (a.y || 0) - (b.y || 0) || (a.x || 0) - (b.x || 0));
+
+  // Procedures: UFUN <name> <inputs> <body> EOL, or <value> EOLR
+  topBlocks
+    .filter((block) => PROCEDURE_DEFINITIONS.includes(block.type))
+    .forEach((block) => {
+      const name = block.fields?.NAME;
+      if (functions[name] !== undefined) {
+        throw new CompileError(`There are two functions called ${name}`, block.id);
+      }
+
+      const params: { id: string; name?: string }[] = block.extraState?.params || [];
+      const returnsValue = block.type === 'procedures_defreturn';
+      const scope: Scope = {
+        locals: new Map(params.map((param, i) => [param.id, i])),
+        nextLocal: params.length,
+        procedure: { returnsValue },
+      };
+
+      functions[name] = memory.length;
+      inputs[memory.length] = params.map(
+        (param) => param.name || variableNames.get(param.id) || param.id
+      );
+      emitFor(block.id, OpCodes.UFUN, name, params.length);
+      compileStatements(getInputBlock(block, 'STACK'), scope);
+
+      if (returnsValue) {
+        compileValue(getInputBlock(block, 'RETURN'), 0, scope);
+        emitFor(block.id, OpCodes.EOLR);
+      } else {
+        emitFor(block.id, OpCodes.EOL);
+      }
+    });
+
+  // Main program, stacks of other blocks that report values are ignored
+  const entry = memory.length;
+  const mainScope: Scope = { locals: new Map(), nextLocal: 0, procedure: null };
+  topBlocks
+    .filter((block) => !PROCEDURE_DEFINITIONS.includes(block.type) && !VALUE_BLOCKS.has(block.type))
+    .forEach((block) => compileStatements(block, mainScope));
+  emitFor(null, OpCodes.DONE);
+
+  return { memory, entry, functions, sourceMap, globals, inputs, calls };
+}
+
+// Swap the address of each called procedure in for its name
+export function link(program: UnlinkedProgram): CompiledProgram {
+  const memory = program.memory.slice();
+
+  program.calls.forEach(({ address, name, blockId }) => {
+    const target = program.functions[name];
+    if (target === undefined) {
+      throw new CompileError(`There's no function called ${name}`, blockId);
+    }
+    memory[address] = target;
+  });
+
+  const { calls, ...linked } = program;
+  return { ...linked, memory };
+}
+
+// Compile and link a program, from a saved workspace or a workspace itself
+export function compile(source: WorkspaceState | any): CompiledProgram {
+  const workspace =
+    typeof source?.getTopBlocks === 'function' ? saveWorkspace(source) : source;
+  return link(compileUnlinked(workspace));
+}
+
+// Same shape as Blockly.serialization.workspaces.save, for the parts the
+// compiler reads, without loading Blockly here
+const saveBlock = (block: any): BlockState => {
+  const state: BlockState = {
+    type: block.type,
+    id: block.id,
+    enabled: block.isEnabled(),
+    fields: {},
+    inputs: {},
+    extraState: block.saveExtraState ? block.saveExtraState() : undefined,
+  };
+
+  block.inputList.forEach((input: any) => {
+    input.fieldRow.forEach((field: any) => {
+      if (field.name) state.fields![field.name] = field.getValue();
+    });
+
+    const target = input.connection?.targetBlock();
+    if (target) state.inputs![input.name] = { block: saveBlock(target) };
+  });
+
+  const next = block.getNextBlock();
+  if (next) state.next = { block: saveBlock(next) };
+
+  return state;
+};
+
+const saveWorkspace = (workspace: any): WorkspaceState => ({
+  blocks: {
+    blocks: workspace.getTopBlocks(true).map((block: any) => {
+      const position = block.getRelativeToSurfaceXY();
+      return { ...saveBlock(block), x: position.x, y: position.y };
+    }),
+  },
+  variables: workspace.getAllVariables().map((variable: any) => ({
+    name: variable.name,
+    id: variable.getId(),
+  })),
+});
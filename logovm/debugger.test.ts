@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { compile, WorkspaceState } from './compiler';
+import { describeInstruction, getBlockTree, LogoDebugger } from './debugger';
+import { block, loadProgram, num, plug, stack, statements, variable, workspace } from './testHelpers';
+
+const forward = (steps: number, id: string) => block('turtle_forward', { id, inputs: { STEPS: num(steps) } });
+const right = (degrees: number, id: string) => block('turtle_right', { id, inputs: { DEGREES: num(degrees) } });
+
+// repeat 3 [fd 10 rt 90] fd 5
+const square = () =>
+  workspace([
+    stack(
+      block('controls_repeat_ext', {
+        id: 'rep',
+        inputs: { TIMES: num(3), DO: statements(forward(10, 'fd'), right(90, 'rt')) },
+      }),
+      forward(5, 'after')
+    ),
+  ]);
+
+const debug = (source: WorkspaceState) => {
+  const program = compile(source);
+  const loaded = loadProgram(program);
+  return { debugger: new LogoDebugger(loaded.vm, program, getBlockTree(source)), ...loaded };
+};
+
+describe('getBlockTree', () => {
+  it('puts blocks in the block they are plugged into, and next blocks beside theirs', () => {
+    const source = square();
+    const { containers, shadows } = getBlockTree(source);
+    const times = source.blocks!.blocks[0].inputs!.TIMES.shadow!.id;
+
+    expect(containers.get('rep')).toBeNull();
+    expect(containers.get('after')).toBeNull();
+    expect(containers.get('fd')).toBe('rep');
+    expect(containers.get('rt')).toBe('rep');
+    expect(containers.get(times)).toBe('rep');
+    expect(shadows.has(times)).toBe(true);
+    expect(shadows.has('fd')).toBe(false);
+  });
+});
+
+describe('LogoDebugger', () => {
+  it('counts shadow instructions as the block they are plugged into', () => {
+    const { debugger: logoDebugger } = debug(square());
+
+    // DATA 3 of the TIMES shadow comes first
+    expect(logoDebugger.currentBlock).toBe('rep');
+  });
+
+  it('steps a block at a time', () => {
+    const { debugger: logoDebugger, vm, calls } = debug(square());
+    const visited = [logoDebugger.currentBlock];
+
+    while (vm.status !== 'done') {
+      logoDebugger.stepBlock();
+      visited.push(logoDebugger.currentBlock);
+    }
+
+    expect(visited).toEqual([
+      'rep', 'fd', 'rt', 'rep', 'fd', 'rt', 'rep', 'fd', 'rt', 'rep', 'after', null,
+    ]);
+    expect(calls).toEqual(['fd 10', 'rt 90', 'fd 10', 'rt 90', 'fd 10', 'rt 90', 'fd 5']);
+  });
+
+  it('stops at a breakpoint every time the program gets to it, and resumes from there', () => {
+    const { debugger: logoDebugger, calls } = debug(square());
+    logoDebugger.breakpoints.add('rt');
+
+    const pauses: string[] = [];
+    let reason = logoDebugger.run(Infinity);
+    while (reason === 'breakpoint') {
+      pauses.push(`${logoDebugger.currentBlock} after ${calls.length}`);
+      reason = logoDebugger.run(Infinity);
+    }
+
+    expect(reason).toBe('done');
+    expect(pauses).toEqual(['rt after 1', 'rt after 3', 'rt after 5']);
+  });
+
+  it('stops once for a breakpoint on a block the program stays inside', () => {
+    const { debugger: logoDebugger, calls } = debug(square());
+    logoDebugger.breakpoints.add('rep');
+
+    expect(logoDebugger.run(Infinity)).toBe('breakpoint');
+    expect(calls).toEqual([]);
+    expect(logoDebugger.run(Infinity)).toBe('done');
+    expect(calls).toHaveLength(7);
+  });
+
+  it('stops after maxSteps instructions or maxBlocks blocks', () => {
+    const { debugger: logoDebugger, vm } = debug(square());
+
+    expect(logoDebugger.run(2)).toBe('limit');
+    expect(vm.steps).toBe(2);
+
+    // Still in rep, so the next block is fd and the one after that rt
+    expect(logoDebugger.run(Infinity, 1)).toBe('limit');
+    expect(logoDebugger.currentBlock).toBe('rt');
+    expect(logoDebugger.run(Infinity)).toBe('done');
+  });
+
+  it('reads the inputs of the running function and the globals', () => {
+    const n = { id: 'n', name: 'size' };
+    const definition = block('procedures_defnoreturn', {
+      y: 0,
+      fields: { NAME: 'poly' },
+      extraState: { params: [n] },
+      inputs: {
+        STACK: statements(
+          block('turtle_forward', {
+            id: 'inside',
+            inputs: { STEPS: plug(block('variables_get', { fields: { VAR: variable('n') } })) },
+          })
+        ),
+      },
+    });
+    const main = stack(
+      block('variables_set', { fields: { VAR: variable('count') }, inputs: { VALUE: num(2) } }),
+      block('procedures_callnoreturn', {
+        extraState: { name: 'poly', params: ['size'] },
+        inputs: { ARG0: num(7) },
+      })
+    );
+    const { debugger: logoDebugger } = debug(
+      workspace([definition, { ...main, y: 100 }], [{ name: 'count', id: 'count' }])
+    );
+
+    expect(logoDebugger.getCall()).toBeNull();
+
+    logoDebugger.breakpoints.add('inside');
+    expect(logoDebugger.run(Infinity)).toBe('breakpoint');
+    expect(logoDebugger.getCall()).toEqual({ name: 'poly', inputs: [{ name: 'size', value: 7 }] });
+    expect(logoDebugger.getGlobals()).toEqual([{ name: 'count', value: 2 }]);
+
+    // LGET 0 pushes the input on top of the frame that holds it
+    logoDebugger.stepInstruction();
+    expect(logoDebugger.getStack()).toEqual([7, 7]);
+  });
+});
+
+describe('describeInstruction', () => {
+  it('names opcodes and primitives with their operands', () => {
+    const { vm } = loadProgram(compile(square()));
+
+    expect(describeInstruction(vm, 0)).toBe('DATA 3');
+    expect(describeInstruction(vm, 2)).toBe('ILIST 7');
+    expect(describeInstruction(vm, 6)).toBe('fd');
+  });
+});
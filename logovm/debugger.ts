@@ -0,0 +1,167 @@
+// Debugger for compiled programs: runs them an instruction or a block at a
+// time, stops at breakpoints, and reads variables and the stack for display
+//
+// Blocks come from the source map. Instructions of shadow blocks count as
+// the block they're plugged into, so stepping a block at a time goes
+// through the blocks a learner placed, and a breakpoint on a block stops
+// when the program first gets to it or anything inside it.
+
+import { BlockState, CompiledProgram, WorkspaceState } from './compiler';
+import { getOperandCount, LogoValue, LogoVM, OpCodes } from './vm';
+
+// Where blocks sit in a workspace. Statements after a block have the same
+// container as it, they aren't inside it
+export interface BlockTree {
+  containers: Map<string, string | null>;
+  shadows: Set<string>;
+}
+
+export interface VariableValue {
+  name: string;
+  value: LogoValue | undefined; // Undefined until it's first set
+}
+
+// Why run stopped
+export type PauseReason = 'done' | 'breakpoint' | 'limit';
+
+const OPCODE_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(OpCodes).map(([name, opcode]) => [opcode, name])
+);
+
+export function getBlockTree(workspace: WorkspaceState): BlockTree {
+  const containers = new Map<string, string | null>();
+  const shadows = new Set<string>();
+
+  const visit = (block: BlockState | undefined, container: string | null, shadow: boolean) => {
+    if (!block) return;
+    containers.set(block.id, container);
+    if (shadow) shadows.add(block.id);
+
+    Object.values(block.inputs || {}).forEach((input) => {
+      visit(input.block, block.id, false);
+      visit(input.shadow, block.id, true);
+    });
+    visit(block.next?.block, container, false);
+    visit(block.next?.shadow, container, true);
+  };
+
+  (workspace.blocks?.blocks || []).forEach((block) => visit(block, null, false));
+  return { containers, shadows };
+}
+
+// An instruction as text, e.g. "DATA 10" or "fd"
+export function describeInstruction(vm: LogoVM, address: number): string {
+  const opcode = vm.memory[address];
+  if (opcode === undefined) return '';
+
+  const name =
+    typeof opcode === 'number'
+      ? OPCODE_NAMES[opcode] || vm.primitives[opcode]?.name || String(opcode)
+      : String(opcode);
+  const operands = vm.memory.slice(address + 1, address + 1 + getOperandCount(opcode));
+  return [name, ...operands.map((operand) => JSON.stringify(operand))].join(' ');
+}
+
+export class LogoDebugger {
+  breakpoints = new Set<string>(); // Block IDs
+  private lastBlock: string | null = null; // Of the last instruction that had one
+  private resumeAt = -1; // Steps count a breakpoint stopped at, to go on from there
+
+  constructor(
+    public vm: LogoVM,
+    public program: CompiledProgram,
+    private tree: BlockTree
+  ) {}
+
+  // Block of the next instruction, null for instructions of no block
+  get currentBlock(): string | null {
+    let blockId = this.program.sourceMap[this.vm.ip] ?? null;
+    while (blockId && this.tree.shadows.has(blockId)) {
+      blockId = this.tree.containers.get(blockId) ?? null;
+    }
+    return blockId;
+  }
+
+  stepInstruction() {
+    this.lastBlock = this.currentBlock ?? this.lastBlock;
+    this.vm.step();
+  }
+
+  // Run until the next block starts, blocks that loop on their own stop
+  // after maxSteps instructions
+  stepBlock(maxSteps = 10000) {
+    const start = this.currentBlock;
+    let count = 0;
+    do {
+      this.stepInstruction();
+      count++;
+    } while (
+      this.vm.status !== 'done' &&
+      count < maxSteps &&
+      (this.currentBlock === null || this.currentBlock === start)
+    );
+  }
+
+  // Run until the end, a breakpoint, maxSteps instructions or maxBlocks
+  // blocks, whichever comes first
+  run(maxSteps: number, maxBlocks = Infinity): PauseReason {
+    let blocks = 0;
+    for (let count = 0; count < maxSteps; count++) {
+      if (this.vm.status === 'done') return 'done';
+
+      const block = this.currentBlock;
+      if (this.vm.steps !== this.resumeAt && this.isEntering(block)) {
+        this.resumeAt = this.vm.steps;
+        return 'breakpoint';
+      }
+      if (block !== null && block !== this.lastBlock) {
+        if (blocks >= maxBlocks) return 'limit';
+        blocks++;
+      }
+
+      this.stepInstruction();
+    }
+    return this.vm.status === 'done' ? 'done' : 'limit';
+  }
+
+  getGlobals(): VariableValue[] {
+    return this.program.globals.map((name, slot) => ({ name, value: this.vm.globals[slot] }));
+  }
+
+  // The procedure running now and its inputs, null in the main program
+  getCall(): { name: string; inputs: VariableValue[] } | null {
+    const { control, memory, stack, fp } = this.vm;
+    for (let i = control.length - 1; i >= 0; i--) {
+      const frame = control[i];
+      if (frame.kind !== 'call') continue;
+
+      const names = this.program.inputs[frame.function] || [];
+      return {
+        name: String(memory[frame.function + 1]),
+        inputs: names.map((name, slot) => ({ name, value: stack[fp + slot] })),
+      };
+    }
+    return null;
+  }
+
+  // Top of the stack first
+  getStack(): LogoValue[] {
+    return this.vm.stack.slice(0, this.vm.sp).reverse();
+  }
+
+  private contains(ancestor: string, blockId: string | null) {
+    for (let id = blockId; id; id = this.tree.containers.get(id) ?? null) {
+      if (id === ancestor) return true;
+    }
+    return false;
+  }
+
+  // Whether the next instruction goes into a block with a breakpoint
+  private isEntering(blockId: string | null) {
+    if (blockId === null) return false;
+    return Array.from(this.breakpoints).some(
+      (breakpoint) =>
+        this.contains(breakpoint, blockId) && !this.contains(breakpoint, this.lastBlock)
+    );
+  }
+}
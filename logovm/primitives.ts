@@ -0,0 +1,191 @@
+// Primitive tables for LogoVM: operators for expressions and the turtle.
+// Programs from the compiler run with both, see createPrimitives
+
+import { LogoValue, PRIMITIVE_BASE, PrimitiveTable } from './vm';
+
+export const OperatorOpCodes = Object.freeze({
+  ADD: PRIMITIVE_BASE,
+  SUB: PRIMITIVE_BASE + 1,
+  MUL: PRIMITIVE_BASE + 2,
+  DIV: PRIMITIVE_BASE + 3,
+  POW: PRIMITIVE_BASE + 4,
+  NEG: PRIMITIVE_BASE + 5,
+  ABS: PRIMITIVE_BASE + 6,
+  SQRT: PRIMITIVE_BASE + 7,
+  LN: PRIMITIVE_BASE + 8,
+  LOG10: PRIMITIVE_BASE + 9,
+  EXP: PRIMITIVE_BASE + 10,
+  POW10: PRIMITIVE_BASE + 11,
+  ROUND: PRIMITIVE_BASE + 12,
+  ROUNDUP: PRIMITIVE_BASE + 13,
+  ROUNDDOWN: PRIMITIVE_BASE + 14,
+  EQ: PRIMITIVE_BASE + 15,
+  NEQ: PRIMITIVE_BASE + 16,
+  LT: PRIMITIVE_BASE + 17,
+  LTE: PRIMITIVE_BASE + 18,
+  GT: PRIMITIVE_BASE + 19,
+  GTE: PRIMITIVE_BASE + 20,
+  AND: PRIMITIVE_BASE + 21,
+  OR: PRIMITIVE_BASE + 22,
+  NOT: PRIMITIVE_BASE + 23,
+  JOIN: PRIMITIVE_BASE + 24,
+  LENGTH: PRIMITIVE_BASE + 25,
+  FORSTEP: PRIMITIVE_BASE + 26, // Step of a count loop from its start, end and increment
+});
+
+export const TurtleOpCodes = Object.freeze({
+  FD: PRIMITIVE_BASE + 32,
+  BK: PRIMITIVE_BASE + 33,
+  RT: PRIMITIVE_BASE + 34,
+  LT: PRIMITIVE_BASE + 35,
+  PENUP: PRIMITIVE_BASE + 36,
+  PENDOWN: PRIMITIVE_BASE + 37,
+  PENCOLOUR: PRIMITIVE_BASE + 38,
+  HOME: PRIMITIVE_BASE + 39,
+  CLEAR: PRIMITIVE_BASE + 40,
+});
+
+const number = (name: string, run: (a: number) => LogoValue) => ({
+  name,
+  inputs: 1,
+  run: ([a]: LogoValue[]) => run(Number(a)),
+});
+
+const binary = (name: string, run: (a: number, b: number) => LogoValue) => ({
+  name,
+  inputs: 2,
+  run: ([a, b]: LogoValue[]) => run(Number(a), Number(b)),
+});
+
+// Comparisons and equality follow the generated JavaScript, so "5" equals 5
+const compare = (name: string, run: (a: LogoValue, b: LogoValue) => boolean) => ({
+  name,
+  inputs: 2,
+  run: ([a, b]: LogoValue[]) => run(a, b),
+});
+
+export const operatorPrimitives: PrimitiveTable = {
+  [OperatorOpCodes.ADD]: binary('+', (a, b) => a + b),
+  [OperatorOpCodes.SUB]: binary('-', (a, b) => a - b),
+  [OperatorOpCodes.MUL]: binary('*', (a, b) => a * b),
+  [OperatorOpCodes.DIV]: binary('/', (a, b) => a / b),
+  [OperatorOpCodes.POW]: binary('^', (a, b) => Math.pow(a, b)),
+  [OperatorOpCodes.NEG]: number('minus', (a) => -a),
+  [OperatorOpCodes.ABS]: number('abs', Math.abs),
+  [OperatorOpCodes.SQRT]: number('sqrt', Math.sqrt),
+  [OperatorOpCodes.LN]: number('ln', Math.log),
+  [OperatorOpCodes.LOG10]: number('log10', (a) => Math.log(a) / Math.log(10)),
+  [OperatorOpCodes.EXP]: number('exp', Math.exp),
+  [OperatorOpCodes.POW10]: number('power10', (a) => Math.pow(10, a)),
+  [OperatorOpCodes.ROUND]: number('round', Math.round),
+  [OperatorOpCodes.ROUNDUP]: number('roundup', Math.ceil),
+  [OperatorOpCodes.ROUNDDOWN]: number('rounddown', Math.floor),
+  [OperatorOpCodes.EQ]: compare('=', (a, b) => a == b),
+  [OperatorOpCodes.NEQ]: compare('<>', (a, b) => a != b),
+  [OperatorOpCodes.LT]: compare('<', (a, b) => a < b),
+  [OperatorOpCodes.LTE]: compare('<=', (a, b) => a <= b),
+  [OperatorOpCodes.GT]: compare('>', (a, b) => a > b),
+  [OperatorOpCodes.GTE]: compare('>=', (a, b) => a >= b),
+  [OperatorOpCodes.AND]: compare('and', (a, b) => !!a && !!b),
+  [OperatorOpCodes.OR]: compare('or', (a, b) => !!a || !!b),
+  [OperatorOpCodes.NOT]: { name: 'not', inputs: 1, run: ([a]) => !a },
+  [OperatorOpCodes.JOIN]: {
+    name: 'join',
+    inputs: 2,
+    run: ([a, b]) => String(a) + String(b),
+  },
+  [OperatorOpCodes.LENGTH]: {
+    name: 'length',
+    inputs: 1,
+    run: ([a]) => String(a).length,
+  },
+  [OperatorOpCodes.FORSTEP]: {
+    name: 'forstep',
+    inputs: 3,
+    // Counts down when the end is below the start, like Blockly's count loop
+    run: ([from, to, by]) =>
+      Number(from) <= Number(to) ? Math.abs(Number(by)) : -Math.abs(Number(by)),
+  },
+};
+
+// What the turtle primitives drive, e.g. a stage on a canvas
+export interface Turtle {
+  forward(steps: number): void;
+  right(degrees: number): void;
+  setPenDown(down: boolean): void;
+  setPenColour(colour: string): void;
+  home(): void; // Back to the middle, facing up
+  clear(): void; // Wipe the drawing, the turtle stays where it is
+}
+
+export const createTurtlePrimitives = (turtle: Turtle): PrimitiveTable => ({
+  [TurtleOpCodes.FD]: {
+    name: 'fd',
+    inputs: 1,
+    run: ([steps]) => {
+      turtle.forward(Number(steps));
+    },
+  },
+  [TurtleOpCodes.BK]: {
+    name: 'bk',
+    inputs: 1,
+    run: ([steps]) => {
+      turtle.forward(-Number(steps));
+    },
+  },
+  [TurtleOpCodes.RT]: {
+    name: 'rt',
+    inputs: 1,
+    run: ([degrees]) => {
+      turtle.right(Number(degrees));
+    },
+  },
+  [TurtleOpCodes.LT]: {
+    name: 'lt',
+    inputs: 1,
+    run: ([degrees]) => {
+      turtle.right(-Number(degrees));
+    },
+  },
+  [TurtleOpCodes.PENUP]: {
+    name: 'penup',
+    inputs: 0,
+    run: () => {
+      turtle.setPenDown(false);
+    },
+  },
+  [TurtleOpCodes.PENDOWN]: {
+    name: 'pendown',
+    inputs: 0,
+    run: () => {
+      turtle.setPenDown(true);
+    },
+  },
+  [TurtleOpCodes.PENCOLOUR]: {
+    name: 'setpencolor',
+    inputs: 1,
+    run: ([colour]) => {
+      turtle.setPenColour(String(colour));
+    },
+  },
+  [TurtleOpCodes.HOME]: {
+    name: 'home',
+    inputs: 0,
+    run: () => {
+      turtle.home();
+    },
+  },
+  [TurtleOpCodes.CLEAR]: {
+    name: 'clean',
+    inputs: 0,
+    run: () => {
+      turtle.clear();
+    },
+  },
+});
+
+// Everything compiled programs use
+export const createPrimitives = (turtle: Turtle): PrimitiveTable => ({
+  ...operatorPrimitives,
+  ...createTurtlePrimitives(turtle),
+});
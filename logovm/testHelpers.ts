@@ -0,0 +1,80 @@
+// Builders for the LogoVM tests: a turtle that records what it's told, and
+// saved blocks in the shape Blockly.serialization.workspaces.save gives
+
+import { BlockState, CompiledProgram, WorkspaceState } from './compiler';
+import { createPrimitives, Turtle } from './primitives';
+import { LogoVM } from './vm';
+
+export const createRecordingTurtle = () => {
+  const calls: string[] = [];
+  const state = { x: 0, y: 0, heading: 0 };
+
+  const turtle: Turtle = {
+    forward: (steps) => {
+      calls.push(`fd ${steps}`);
+      const radians = (state.heading * Math.PI) / 180;
+      state.x += Math.sin(radians) * steps;
+      state.y += Math.cos(radians) * steps;
+    },
+    right: (degrees) => {
+      calls.push(`rt ${degrees}`);
+      state.heading = (((state.heading + degrees) % 360) + 360) % 360;
+    },
+    setPenDown: (down) => {
+      calls.push(down ? 'pd' : 'pu');
+    },
+    setPenColour: (colour) => {
+      calls.push(`colour ${colour}`);
+    },
+    home: () => {
+      calls.push('home');
+    },
+    clear: () => {
+      calls.push('clear');
+    },
+  };
+
+  return { turtle, calls, state };
+};
+
+// A VM with a recording turtle and the program loaded
+export const loadProgram = (program: Pick<CompiledProgram, 'memory' | 'entry'>) => {
+  const recorder = createRecordingTurtle();
+  const vm = new LogoVM(createPrimitives(recorder.turtle));
+  vm.load(program.memory, program.entry);
+  return { vm, ...recorder };
+};
+
+type Input = { block?: BlockState; shadow?: BlockState };
+
+let nextId = 0;
+
+export const block = (
+  type: string,
+  options: Partial<Omit<BlockState, 'type'>> = {}
+): BlockState => ({ ...options, id: options.id ?? `${type}_${nextId++}`, type });
+
+// A number plugged in as a shadow, like the toolbox does
+export const num = (value: number, id?: string): Input => ({
+  shadow: block('math_number', { id, fields: { NUM: value } }),
+});
+
+export const plug = (value: BlockState): Input => ({ block: value });
+
+// Statements joined through next, the first one is returned
+export const stack = (...blocks: BlockState[]): BlockState => {
+  blocks.reduce((previous, current) => {
+    previous.next = { block: current };
+    return current;
+  });
+  return blocks[0];
+};
+
+export const statements = (...blocks: BlockState[]): Input => ({ block: stack(...blocks) });
+
+export const variable = (id: string) => ({ id });
+
+export const workspace = (
+  blocks: BlockState[],
+  variables: { name: string; id: string }[] = []
+): WorkspaceState => ({ blocks: { blocks }, variables });
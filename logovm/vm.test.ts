@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { Instruction, LogoVM, LogoVMError, OpCodes } from './vm';
+import { createPrimitives, OperatorOpCodes, TurtleOpCodes } from './primitives';
+import { createRecordingTurtle, loadProgram } from './testHelpers';
+
+const { DATA, ILIST, EOL, EOLR, LGET, LSET, UFUN, CALLFUNC, REPEAT, GGET, GSET, IFELSE, WHILE, DONE } =
+  OpCodes;
+const { FD, RT } = TurtleOpCodes;
+
+const run = (memory: Instruction[], entry = 0) => {
+  const loaded = loadProgram({ memory, entry });
+  loaded.vm.run();
+  return loaded;
+};
+
+// The programs from the comment at the top of vm.ts
+const SQUARE = [UFUN, 'SQUARE', 0, DATA, 4, ILIST, 7, DATA, 10, FD, DATA, 90, RT, EOL, REPEAT, EOL];
+const DIAMOND = [UFUN, 'DIAMOND', 0, DATA, 45, RT, DATA, 4, ILIST, 6, CALLFUNC, 0, DATA, 90, RT, EOL, REPEAT, EOL];
+
+const squareCalls = ['fd 10', 'rt 90', 'fd 10', 'rt 90', 'fd 10', 'rt 90', 'fd 10', 'rt 90'];
+
+describe('LogoVM', () => {
+  it('runs repeat 4 [fd 10 rt 90]', () => {
+    const { vm, calls, state } = run([DATA, 4, ILIST, 7, DATA, 10, FD, DATA, 90, RT, EOL, REPEAT, DONE]);
+
+    expect(vm.status).toBe('done');
+    expect(calls).toEqual(squareCalls);
+    expect(state.heading).toBe(0);
+    expect(state.x).toBeCloseTo(0);
+    expect(state.y).toBeCloseTo(0);
+    expect(vm.sp).toBe(0);
+  });
+
+  it('calls SQUARE', () => {
+    const { vm, calls } = run([...SQUARE, CALLFUNC, 0, DONE], SQUARE.length);
+
+    expect(vm.status).toBe('done');
+    expect(calls).toEqual(squareCalls);
+    expect(vm.control).toEqual([]);
+  });
+
+  it('calls SQUARE from DIAMOND', () => {
+    const { vm, calls, state } = run(
+      [...SQUARE, ...DIAMOND, CALLFUNC, SQUARE.length, DONE],
+      SQUARE.length + DIAMOND.length
+    );
+
+    expect(vm.status).toBe('done');
+    expect(calls[0]).toBe('rt 45');
+    expect(calls.filter((call) => call === 'fd 10')).toHaveLength(16);
+    expect(calls.slice(1, 10)).toEqual([...squareCalls, 'rt 90']);
+    expect(state.heading).toBe(45);
+    expect(state.x).toBeCloseTo(0);
+    expect(state.y).toBeCloseTo(0);
+  });
+
+  it('passes inputs and outputs a value', () => {
+    // to double :n output :n * 2 end, then set global 0 to double 21
+    const DOUBLE = [UFUN, 'DOUBLE', 1, LGET, 0, DATA, 2, OperatorOpCodes.MUL, EOLR];
+    const { vm } = run([...DOUBLE, DATA, 21, CALLFUNC, 0, GSET, 0, DONE], DOUBLE.length);
+
+    expect(vm.globals[0]).toBe(42);
+    expect(vm.sp).toBe(0);
+  });
+
+  it('grows the frame for new locals between statements', () => {
+    const { vm } = run([DATA, 5, LSET, 1, LGET, 1, GSET, 0, DONE]);
+
+    expect(vm.globals[0]).toBe(5);
+    expect(vm.frameSize).toBe(2);
+  });
+
+  it('runs WHILE until its condition fails', () => {
+    // global 0 = 0, while global 0 < 3 [global 0 = global 0 + 1]
+    const { vm } = run([
+      DATA, 0, GSET, 0,
+      ILIST, 6, GGET, 0, DATA, 3, OperatorOpCodes.LT, EOL,
+      ILIST, 8, GGET, 0, DATA, 1, OperatorOpCodes.ADD, GSET, 0, EOL,
+      WHILE, DONE,
+    ]);
+
+    expect(vm.globals[0]).toBe(3);
+    expect(vm.sp).toBe(0);
+  });
+
+  it('runs the matching branch of IFELSE', () => {
+    const program = (condition: boolean) => [
+      DATA, condition,
+      ILIST, 5, DATA, 'yes', GSET, 0, EOL,
+      ILIST, 5, DATA, 'no', GSET, 0, EOL,
+      IFELSE, DONE,
+    ];
+
+    expect(run(program(true)).vm.globals[0]).toBe('yes');
+    expect(run(program(false)).vm.globals[0]).toBe('no');
+  });
+
+  it('stops after maxSteps and carries on from there', () => {
+    const vm = new LogoVM(createPrimitives(createRecordingTurtle().turtle));
+    vm.load([DATA, 4, ILIST, 7, DATA, 10, FD, DATA, 90, RT, EOL, REPEAT, DONE]);
+
+    expect(vm.run(3)).toBe('running');
+    expect(vm.steps).toBe(3);
+    expect(vm.run()).toBe('done');
+  });
+
+  it('reports errors with the address of the instruction', () => {
+    const vm = new LogoVM(createPrimitives(createRecordingTurtle().turtle));
+
+    vm.load([DATA, 1, 99]);
+    let error: unknown = null;
+    try {
+      vm.run();
+    } catch (thrown) {
+      error = thrown;
+    }
+    expect(error).toBeInstanceOf(LogoVMError);
+    expect((error as LogoVMError).ip).toBe(2);
+
+    vm.load([FD]);
+    expect(() => vm.run()).toThrow('Not enough inputs');
+
+    vm.load([CALLFUNC, 'SQUARE']);
+    expect(() => vm.run()).toThrow("isn't linked");
+  });
+});
@@ -0,0 +1,384 @@
+// LogoVM, a small stack machine for turtle programs
+//
+// Programs are a flat instruction memory of opcodes and their operands.
+// `repeat 4 [fd 10 rt 90]` runs as
+//
+//   DATA 4 ILIST 7 DATA 10 FD DATA 90 RT EOL REPEAT DONE
+//
+// ILIST pushes the address of the instruction list that follows it and
+// skips over it, REPEAT pops the list and the count and runs the list that
+// many times. Every list ends with EOL, which goes back to whatever ran it.
+//
+// User functions start with a header `UFUN <name> <inputs>` and their body
+// ends with EOL (or EOLR to output a value):
+//
+//   to square                0: UFUN SQUARE 0 DATA 4 ILIST 7 DATA 10 FD
+//   repeat 4 [fd 10 rt 90]      DATA 90 RT EOL REPEAT EOL
+//   end
+//
+//   to diamond              16: UFUN DIAMOND 0 DATA 45 RT DATA 4 ILIST 6
+//   rt 45                       CALLFUNC 0 DATA 90 RT EOL REPEAT EOL
+//   repeat 4 [square rt 90]
+//   end
+//
+// CALLFUNC takes the address of the function's header, the linker swaps it
+// in for the function name. A call's inputs are on the data stack, the
+// frame pointer marks the first of them, and LGET/LSET read and write the
+// frame's slots: the inputs, then locals. GGET/GSET read and write global
+// variables. IF, IFELSE and WHILE take instruction lists like REPEAT, the
+// condition list of a WHILE leaves its result on the stack.
+
+export const OpCodes = Object.freeze({
+  DONE: 0,
+  DATA: 1, // DATA <value>: push a value
+  ILIST: 2, // ILIST <length>: push the address of the list that follows
+  EOL: 3, // End of a list or function body
+  EOLR: 4, // End of a function body that outputs the top of the stack
+  LGET: 5, // LGET <slot>: push a slot of the current frame
+  LSET: 6, // LSET <slot>: pop into a slot of the current frame
+  UFUN: 7, // UFUN <name> <inputs>: header of a user function
+  CALLFUNC: 8, // CALLFUNC <address>: call the user function there
+  REPEAT: 9, // Pop a count and a list, run the list count times
+  GGET: 10, // GGET <slot>: push a global variable
+  GSET: 11, // GSET <slot>: pop into a global variable
+  IF: 12, // Pop a list and a condition, run the list if the condition holds
+  IFELSE: 13, // Pop two lists and a condition, run the first or the second
+  WHILE: 14, // Pop a body and a condition list, run the body while the condition holds
+  STOP: 15, // Leave the current function, or end the program
+});
+
+// Operands following each opcode, the rest have none
+const OPERAND_COUNTS: Record<number, number> = {
+  [OpCodes.DATA]: 1,
+  [OpCodes.ILIST]: 1,
+  [OpCodes.LGET]: 1,
+  [OpCodes.LSET]: 1,
+  [OpCodes.UFUN]: 2,
+  [OpCodes.CALLFUNC]: 1,
+  [OpCodes.GGET]: 1,
+  [OpCodes.GSET]: 1,
+};
+
+export const getOperandCount = (opcode: Instruction) =>
+  typeof opcode === 'number' ? OPERAND_COUNTS[opcode] || 0 : 0;
+
+// Opcodes from here on run primitives, see PrimitiveTable and primitives.ts
+export const PRIMITIVE_BASE = 32;
+
+export type LogoValue = number | string | boolean;
+
+// Opcodes, operands, and function names in calls that aren't linked yet
+export type Instruction = number | string | boolean;
+
+export interface Primitive {
+  name: string;
+  inputs: number;
+  // Gets the inputs in the order they were pushed, a returned value is pushed
+  run: (inputs: LogoValue[], vm: LogoVM) => LogoValue | void;
+}
+
+export type PrimitiveTable = Record<number, Primitive>;
+
+// Thrown when a program can't go on, ip is the address of the instruction
+export class LogoVMError extends Error {
+  constructor(message: string, public ip: number) {
+    super(`${message} (at ${ip})`);
+    this.name = 'LogoVMError';
+  }
+}
+
+// Where EOL goes back to: the caller of a function, a running REPEAT (IF
+// runs its list as a single repeat) or a WHILE testing its condition or
+// running its body
+type ControlFrame =
+  | { kind: 'call'; returnIp: number; fp: number; size: number; function: number }
+  | { kind: 'repeat'; returnIp: number; list: number; remaining: number }
+  | { kind: 'while'; returnIp: number; condition: number; body: number; testing: boolean };
+
+export type VMStatus = 'ready' | 'running' | 'done';
+
+export class LogoVM {
+  memory: Instruction[] = [];
+  stack: LogoValue[] = [];
+  ip = 0; // Instruction pointer
+  sp = 0; // Stack pointer, the next free slot
+  fp = 0; // Frame pointer, the first slot of the current call
+  frameSize = 0; // Inputs and locals of the current call
+  control: ControlFrame[] = [];
+  globals: (LogoValue | undefined)[] = [];
+  status: VMStatus = 'ready';
+  steps = 0; // Instructions run since the program was loaded
+
+  constructor(public primitives: PrimitiveTable = {}) {}
+
+  // Start a program, entry is the address of its first instruction
+  load(memory: Instruction[], entry = 0) {
+    this.memory = memory;
+    this.stack = [];
+    this.ip = entry;
+    this.sp = 0;
+    this.fp = 0;
+    this.frameSize = 0;
+    this.control = [];
+    this.globals = [];
+    this.status = 'ready';
+    this.steps = 0;
+  }
+
+  // Run until the program is done or maxSteps instructions ran, which lets
+  // callers pause long programs and catch ones that never end
+  run(maxSteps = Infinity): VMStatus {
+    let count = 0;
+    while (this.status !== 'done' && count < maxSteps) {
+      this.step();
+      count++;
+    }
+    return this.status;
+  }
+
+  // Run a single instruction
+  step() {
+    if (this.status === 'done') return;
+    this.status = 'running';
+    this.steps++;
+
+    const at = this.ip;
+    const opcode = this.fetch();
+
+    switch (opcode) {
+      case OpCodes.DONE:
+        this.status = 'done';
+        break;
+      case OpCodes.DATA:
+        this.push(this.fetch() as LogoValue);
+        break;
+      case OpCodes.ILIST: {
+        const length = this.fetchNumber(at);
+        this.push(this.ip);
+        this.ip += length;
+        break;
+      }
+      case OpCodes.EOL:
+        this.endList();
+        break;
+      case OpCodes.EOLR: {
+        const frame = this.currentCall();
+        if (!frame) {
+          throw new LogoVMError('Output used outside of a function', at);
+        }
+        const value = this.pop(at);
+        this.returnFrom(frame);
+        this.push(value);
+        break;
+      }
+      case OpCodes.LGET: {
+        const slot = this.fetchNumber(at);
+        if (slot < 0 || slot >= this.frameSize) {
+          throw new LogoVMError(`No local variable in slot ${slot}`, at);
+        }
+        this.push(this.stack[this.fp + slot]);
+        break;
+      }
+      case OpCodes.LSET: {
+        const slot = this.fetchNumber(at);
+        const value = this.pop(at);
+        if (slot >= this.frameSize) {
+          // New locals grow the frame, which only works while nothing else
+          // is on the stack above it, i.e. between statements
+          if (this.sp !== this.fp + this.frameSize) {
+            throw new LogoVMError('Local variable created inside an expression', at);
+          }
+          while (this.frameSize <= slot) {
+            this.push(0);
+            this.frameSize++;
+          }
+        }
+        this.stack[this.fp + slot] = value;
+        break;
+      }
+      case OpCodes.UFUN:
+        throw new LogoVMError('Ran into a function definition', at);
+      case OpCodes.CALLFUNC:
+        this.call(this.fetch(), at);
+        break;
+      case OpCodes.REPEAT: {
+        const list = this.pop(at);
+        const count = Math.floor(Number(this.pop(at)));
+        if (typeof list !== 'number' || isNaN(count)) {
+          throw new LogoVMError('Repeat needs a count and an instruction list', at);
+        }
+        if (count > 0) {
+          this.control.push({ kind: 'repeat', returnIp: this.ip, list, remaining: count - 1 });
+          this.ip = list;
+        }
+        break;
+      }
+      case OpCodes.GGET: {
+        const slot = this.fetchNumber(at);
+        const value = this.globals[slot];
+        if (value === undefined) {
+          throw new LogoVMError('Variable has no value', at);
+        }
+        this.push(value);
+        break;
+      }
+      case OpCodes.GSET: {
+        const slot = this.fetchNumber(at);
+        this.globals[slot] = this.pop(at);
+        break;
+      }
+      case OpCodes.IF: {
+        const list = this.popList(at);
+        if (this.pop(at)) this.runList(list);
+        break;
+      }
+      case OpCodes.IFELSE: {
+        const otherwise = this.popList(at);
+        const list = this.popList(at);
+        this.runList(this.pop(at) ? list : otherwise);
+        break;
+      }
+      case OpCodes.WHILE: {
+        const body = this.popList(at);
+        const condition = this.popList(at);
+        this.control.push({ kind: 'while', returnIp: this.ip, condition, body, testing: true });
+        this.ip = condition;
+        break;
+      }
+      case OpCodes.STOP: {
+        const frame = this.currentCall();
+        if (frame) {
+          this.returnFrom(frame);
+        } else {
+          this.status = 'done';
+        }
+        break;
+      }
+      default: {
+        const primitive = typeof opcode === 'number' ? this.primitives[opcode] : undefined;
+        if (!primitive) {
+          throw new LogoVMError(`Unknown instruction ${String(opcode)}`, at);
+        }
+        const inputs: LogoValue[] = [];
+        for (let i = 0; i < primitive.inputs; i++) {
+          inputs.unshift(this.pop(at));
+        }
+        const result = primitive.run(inputs, this);
+        if (result !== undefined) this.push(result);
+      }
+    }
+  }
+
+  private fetch(): Instruction {
+    if (this.ip < 0 || this.ip >= this.memory.length) {
+      throw new LogoVMError('Ran past the end of the program', this.ip);
+    }
+    return this.memory[this.ip++];
+  }
+
+  private fetchNumber(at: number): number {
+    const operand = this.fetch();
+    if (typeof operand !== 'number') {
+      throw new LogoVMError(`Expected a number, got ${String(operand)}`, at);
+    }
+    return operand;
+  }
+
+  private push(value: LogoValue) {
+    this.stack[this.sp++] = value;
+  }
+
+  private pop(at: number): LogoValue {
+    if (this.sp <= this.fp + this.frameSize) {
+      throw new LogoVMError('Not enough inputs', at);
+    }
+    const value = this.stack[--this.sp];
+    this.stack.length = this.sp;
+    return value;
+  }
+
+  private call(target: Instruction, at: number) {
+    if (typeof target !== 'number') {
+      throw new LogoVMError(`Function ${String(target)} isn't linked`, at);
+    }
+    if (this.memory[target] !== OpCodes.UFUN) {
+      throw new LogoVMError(`No function at ${target}`, at);
+    }
+
+    const inputs = this.memory[target + 2];
+    if (typeof inputs !== 'number' || this.sp - inputs < this.fp + this.frameSize) {
+      throw new LogoVMError(`Not enough inputs to ${String(this.memory[target + 1])}`, at);
+    }
+
+    this.control.push({
+      kind: 'call',
+      returnIp: this.ip,
+      fp: this.fp,
+      size: this.frameSize,
+      function: target,
+    });
+    this.fp = this.sp - inputs;
+    this.frameSize = inputs;
+    this.ip = target + 3;
+  }
+
+  private popList(at: number): number {
+    const list = this.pop(at);
+    if (typeof list !== 'number') {
+      throw new LogoVMError('Expected an instruction list', at);
+    }
+    return list;
+  }
+
+  private runList(list: number) {
+    this.control.push({ kind: 'repeat', returnIp: this.ip, list, remaining: 0 });
+    this.ip = list;
+  }
+
+  private currentCall() {
+    for (let i = this.control.length - 1; i >= 0; i--) {
+      const frame = this.control[i];
+      if (frame.kind === 'call') return frame;
+    }
+    return null;
+  }
+
+  // Drop the frame of a call with whatever it left on the stack
+  private returnFrom(frame: Extract<ControlFrame, { kind: 'call' }>) {
+    // Lists the function was still repeating end with it
+    this.control.length = this.control.lastIndexOf(frame);
+    this.sp = this.fp;
+    this.stack.length = this.sp;
+    this.fp = frame.fp;
+    this.frameSize = frame.size;
+    this.ip = frame.returnIp;
+  }
+
+  private endList() {
+    const frame = this.control[this.control.length - 1];
+    if (!frame) {
+      // The end of the main program
+      this.status = 'done';
+      return;
+    }
+
+    if (frame.kind === 'call') {
+      this.returnFrom(frame);
+    } else if (frame.kind === 'while') {
+      // The condition list leaves its result on the stack
+      if (frame.testing && !this.pop(this.ip - 1)) {
+        this.control.pop();
+        this.ip = frame.returnIp;
+      } else {
+        frame.testing = !frame.testing;
+        this.ip = frame.testing ? frame.condition : frame.body;
+      }
+    } else if (frame.remaining > 0) {
+      frame.remaining--;
+      this.ip = frame.list;
+    } else {
+      this.control.pop();
+      this.ip = frame.returnIp;
+    }
+  }
+}
@@ -19,6 +19,7 @@ import {
   deleteRoom,
   clearAllRooms,
   cleanupOrphanedRoom,
+  getCachedRoomData,
 } from "../lib/collab";
 import {
   getUserProjects,
@@ -192,16 +193,27 @@ export default function Dashboard() {
     }
   };
 
-  // Handle joining a room by ID
-  const handleJoinRoom = (e: React.FormEvent) => {
+  // Handle joining a room by ID, rooms only open to members the creator
+  // added, anyone else can only read a missing room
+  const handleJoinRoom = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!joinRoomId.trim()) {
+    const roomId = joinRoomId.trim();
+    if (!roomId) {
       setErrorMessage("Room ID cannot be empty");
       return;
     }
 
+    const roomData = await getCachedRoomData(roomId);
+    if (!roomData) {
+      setShowJoinRoomModal(false);
+      setErrorMessage(
+        "You can't open this room yet. Ask the room's creator to add you by your email address from the Share dialog."
+      );
+      return;
+    }
+
     // Navigate to the specified room
-    router.push(`/workspace?roomId=${joinRoomId}`);
+    router.push(`/workspace?roomId=${encodeURIComponent(roomId)}`);
   };
 
   // Handle creating a new project
@@ -687,6 +699,10 @@ export default function Dashboard() {
                   required
                 />
               </div>
+              <p>
+                You can join rooms whose creator has added you. If you haven&apos;t
+                been added yet, ask them to add you by your email address.
+              </p>
               <div className={styles.formActions}>
                 <button
                   type="button"
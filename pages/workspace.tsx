@@ -1,15 +1,34 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import type { NextPage } from 'next';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
-import { FaHome, FaUsers, FaShare, FaCircle, FaArrowLeft, FaSave } from 'react-icons/fa';
+import { FaHome, FaUsers, FaShare, FaCircle, FaArrowLeft, FaSave, FaHistory, FaPlay } from 'react-icons/fa';
 import BlocklyWorkspace from '../components/BlocklyWorkspace';
+import VersionHistoryPanel from '../components/VersionHistoryPanel';
+import TurtleStage, { TurtleStageHandle } from '../components/TurtleStage';
 import { auth } from '../lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
-import { initCollaboration, getRoomUsers, addRoomToUserHistory, getCachedRoomData } from '../lib/collab';
-import { getProject, updateProjectContent, Project } from '../lib/projects';
+import {
+  initCollaboration, getRoomUsers, addRoomToUserHistory, getCachedRoomData,
+  restoreWorkspaceSnapshot, addRoomMember, AutosaveStatus
+} from '../lib/collab';
+import {
+  getProject, updateProjectContent, getUserRole, subscribeToProject,
+  createProjectVersion, Project, ProjectSnapshot, ProjectVersion
+} from '../lib/projects';
 import styles from '../styles/Workspace.module.css';
 
+// How often a version is taken automatically while the program changes
+const VERSION_SNAPSHOT_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+// Labels shown for each autosave status
+const AUTOSAVE_STATUS_LABELS: Record<AutosaveStatus, string> = {
+  saved: 'All changes saved',
+  saving: 'Saving...',
+  'offline-unsaved': 'Offline - changes not saved yet',
+  conflict: 'Waiting for newer changes from others'
+};
+
 const Workspace: NextPage = () => {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
@@ -19,13 +38,22 @@ const Workspace: NextPage = () => {
   const [activeUsers, setActiveUsers] = useState<any[]>([]);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [memberEmail, setMemberEmail] = useState('');
+  const [isAddingMember, setIsAddingMember] = useState(false);
   const [blocklyInstance, setBlocklyInstance] = useState<any>(null);
   const [projectData, setProjectData] = useState<Project | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus | null>(null);
+  const autosaveStatusRef = useRef<AutosaveStatus | null>(null);
   const shareInputRef = useRef<HTMLInputElement>(null);
   const statusMessageTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showStage, setShowStage] = useState(true);
+  const stageRef = useRef<TurtleStageHandle>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const lastVersionXmlRef = useRef<string | null>(null);
   
   // Extract room ID and project ID from query parameters
   const roomId = typeof router.query.roomId === 'string' ? router.query.roomId : '';
@@ -61,6 +89,25 @@ const Workspace: NextPage = () => {
     }
   };
   
+  // Let someone into the room, the collaboration server refuses anyone the
+  // creator hasn't added
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!memberEmail.trim()) return;
+    
+    setIsAddingMember(true);
+    try {
+      await addRoomMember(roomId, memberEmail.trim());
+      showTemporaryMessage(`${memberEmail.trim()} can now join this room`);
+      setMemberEmail('');
+      fetchRoomData(roomId);
+    } catch (error) {
+      showTemporaryMessage(error instanceof Error ? error.message : 'Failed to add the member');
+    } finally {
+      setIsAddingMember(false);
+    }
+  };
+  
   // Handle authentication and setup
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (authUser) => {
@@ -135,6 +182,23 @@ const Workspace: NextPage = () => {
     return () => unsubscribe();
   }, [router, roomId, projectId]);
   
+  // Follow project changes so role updates apply while connected
+  useEffect(() => {
+    if (!projectId || !user) return;
+    
+    const unsubscribe = subscribeToProject(projectId, (project) => {
+      if (project) {
+        setProjectData(project);
+      }
+    });
+    
+    return () => unsubscribe();
+  }, [projectId, user]);
+  
+  // Only owners and editors of a project may change it
+  const userRole = projectData && user ? getUserRole(projectData, user.uid) : null;
+  const isReadOnly = !!projectData && userRole !== 'owner' && userRole !== 'editor';
+  
   // Fetch room data
   const fetchRoomData = async (id = roomId) => {
     try {
@@ -174,25 +238,127 @@ const Workspace: NextPage = () => {
     setBlocklyInstance(instance);
   };
   
+  // Follow the workspace autosave, a finished save counts as the last save
+  const handleAutosaveStatusChange = useCallback((status: AutosaveStatus) => {
+    if (status === 'saved' && autosaveStatusRef.current === 'saving') {
+      setLastSaved(new Date());
+    }
+    autosaveStatusRef.current = status;
+    setAutosaveStatus(status);
+  }, []);
+  
+  // Save the program, through the workspace autosave when it has one so
+  // saves by collaborators can't overwrite each other
+  const saveContent = async (xml: string) => {
+    if (!projectData) return;
+    
+    if (blocklyInstance?.saveNow) {
+      const saved = await blocklyInstance.saveNow();
+      if (!saved) {
+        throw new Error('The workspace is not in sync with the collaboration server');
+      }
+    } else {
+      await updateProjectContent(projectData.id, xml);
+    }
+  };
+  
+  // Current program with the details kept in version history
+  const getSnapshot = (): ProjectSnapshot => ({
+    blocklyXml: blocklyInstance.workspaceToXml(),
+    blockCount: blocklyInstance.getBlockCount(),
+    thumbnail: blocklyInstance.getThumbnail()
+  });
+  
+  const getCurrentXml = useCallback(
+    () => (blocklyInstance ? blocklyInstance.workspaceToXml() : ''),
+    [blocklyInstance]
+  );
+  
+  // Record a version of the program and refresh the history panel
+  const recordVersion = async (snapshot: ProjectSnapshot, reason: ProjectVersion['reason']) => {
+    if (!projectData) return;
+    
+    await createProjectVersion(projectData.id, snapshot, reason);
+    lastVersionXmlRef.current = snapshot.blocklyXml;
+    setHistoryRefreshKey(key => key + 1);
+  };
+  
+  // Take a version every few minutes while the program keeps changing,
+  // on the client that autosaves so editors don't each take one
+  useEffect(() => {
+    if (!projectData?.id || !blocklyInstance || isReadOnly) return;
+    
+    if (lastVersionXmlRef.current === null) {
+      lastVersionXmlRef.current = blocklyInstance.workspaceToXml();
+    }
+    
+    const interval = setInterval(() => {
+      if (blocklyInstance.isAutosaveLeader && !blocklyInstance.isAutosaveLeader()) return;
+      
+      const snapshot = getSnapshot();
+      if (snapshot.blocklyXml === lastVersionXmlRef.current) return;
+      
+      recordVersion(snapshot, 'auto').catch(error => {
+        console.error('Error taking automatic version:', error);
+      });
+    }, VERSION_SNAPSHOT_INTERVAL);
+    
+    return () => clearInterval(interval);
+  }, [projectData?.id, blocklyInstance, isReadOnly]);
+  
+  // Restore a version for everyone in the room and keep it as the saved content
+  const restoreVersion = async (version: ProjectVersion) => {
+    if (!projectData || !blocklyInstance || isReadOnly) return;
+    
+    const restored = restoreWorkspaceSnapshot(
+      blocklyInstance.workspace,
+      blocklyInstance.Blockly,
+      version.blocklyXml
+    );
+    if (!restored) {
+      showTemporaryMessage('You can restore a version when it\'s your turn to edit.');
+      return;
+    }
+    
+    try {
+      const snapshot = getSnapshot();
+      await saveContent(snapshot.blocklyXml);
+      await recordVersion(snapshot, 'restore');
+      setLastSaved(new Date());
+      showTemporaryMessage('Version restored for everyone in the workspace.');
+    } catch (error) {
+      console.error('Error saving restored version:', error);
+      showTemporaryMessage('Version restored, but saving it failed. Please save again.');
+    }
+  };
+  
   // Save project content
   const saveProject = async () => {
-    if (!projectData || !blocklyInstance) return;
+    if (!projectData || !blocklyInstance || isReadOnly) return;
     
     try {
       setIsSaving(true);
       
       // Get XML from Blockly
-      const xml = blocklyInstance.workspaceToXml();
+      const snapshot = getSnapshot();
+      const xml = snapshot.blocklyXml;
       
       // Save to Firebase
-      await updateProjectContent(projectData.id, xml);
+      await saveContent(xml);
+      
+      // Keep the saved content in the version history
+      await recordVersion(snapshot, 'save');
       
       // Update UI
       setLastSaved(new Date());
       showTemporaryMessage('Project saved successfully!');
     } catch (error) {
       console.error('Error saving project:', error);
-      showTemporaryMessage('Failed to save project. Please try again.');
+      showTemporaryMessage(
+        autosaveStatus === 'offline-unsaved'
+          ? 'You\'re offline. Your changes will be saved once you\'re back online.'
+          : 'Failed to save project. Please try again.'
+      );
     } finally {
       setIsSaving(false);
     }
@@ -306,7 +472,7 @@ const Workspace: NextPage = () => {
         </div>
         
         <div className={styles.headerRight}>
-          {projectData && (
+          {projectData && !isReadOnly && (
             <button
               className={styles.saveButton}
               onClick={saveProject}
@@ -316,6 +482,34 @@ const Workspace: NextPage = () => {
             </button>
           )}
           
+          {projectData && (
+            <button
+              className={styles.shareButton}
+              onClick={() => setShowHistory(!showHistory)}
+            >
+              <FaHistory /> History
+            </button>
+          )}
+          
+          <button
+            className={styles.shareButton}
+            onClick={() => setShowStage(!showStage)}
+          >
+            <FaPlay /> Stage
+          </button>
+          
+          {projectData && !isReadOnly && autosaveStatus && (
+            <div
+              className={
+                autosaveStatus === 'saved' ? styles.autosaveSaved :
+                autosaveStatus === 'saving' ? styles.autosaveSaving :
+                styles.autosaveUnsaved
+              }
+            >
+              {AUTOSAVE_STATUS_LABELS[autosaveStatus]}
+            </div>
+          )}
+          
           {lastSaved && (
             <div className={styles.lastSaved}>
               Last saved: {formatLastSaved()}
@@ -364,13 +558,41 @@ const Workspace: NextPage = () => {
       <div className={styles.main}>
         <BlocklyWorkspace
           roomId={activeRoomId}
+          projectId={projectData?.id}
+          isProjectOwner={userRole === 'owner'}
+          projectCollaborationLevel={projectData?.collaborationLevel}
           userId={user?.uid}
           userName={user?.displayName || user?.email?.split('@')[0] || 'Anonymous'}
           userEmail={user?.email || ''}
           onConnectionStatusChange={handleConnectionStatusChange}
           initialXml={projectData?.blocklyXml}
+          readOnly={isReadOnly}
           onBlocklyInit={handleBlocklyInit}
+          onAutosaveStatusChange={handleAutosaveStatusChange}
+          onRunCode={() => stageRef.current?.reset()}
+          onSpriteAction={(action) => stageRef.current?.applySpriteAction(action)}
         />
+        
+        {showStage && (
+          <TurtleStage
+            ref={stageRef}
+            getWorkspaceState={() => blocklyInstance?.getWorkspaceState() ?? null}
+            onBlockError={(blockId) => blocklyInstance?.selectBlock(blockId)}
+            onHighlightBlock={(blockId) => blocklyInstance?.highlightBlock(blockId)}
+            getBreakpoints={() => blocklyInstance?.getBreakpoints() ?? []}
+          />
+        )}
+        
+        {showHistory && projectData && (
+          <VersionHistoryPanel
+            projectId={projectData.id}
+            refreshKey={historyRefreshKey}
+            canRestore={!isReadOnly && !!blocklyInstance}
+            getCurrentXml={getCurrentXml}
+            onRestore={restoreVersion}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
       </div>
       
       {/* Share Modal */}
@@ -423,6 +645,30 @@ const Workspace: NextPage = () => {
                 </button>
               </div>
             </div>
+            {!projectId && roomData?.createdBy === user?.uid && (
+              <>
+                <div className={styles.divider}>AND</div>
+                <div className={styles.modalSection}>
+                  <h3>Add a member by email:</h3>
+                  <form className={styles.inputGroup} onSubmit={handleAddMember}>
+                    <input
+                      className={styles.modalInput}
+                      type="email"
+                      value={memberEmail}
+                      onChange={(e) => setMemberEmail(e.target.value)}
+                      placeholder="student@example.com"
+                    />
+                    <button
+                      className={styles.modalButton}
+                      type="submit"
+                      disabled={isAddingMember}
+                    >
+                      {isAddingMember ? 'Adding...' : 'Add'}
+                    </button>
+                  </form>
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
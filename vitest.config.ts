@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// The security rules tests need the Firestore emulator, `npm run test:rules`
+// starts one and sets FIRESTORE_EMULATOR_HOST
+const rulesTests = process.env.FIRESTORE_EMULATOR_HOST ? [] : ['firestore.rules.test.ts'];
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    exclude: ['node_modules/**', '.next/**', ...rulesTests],
+  },
+});
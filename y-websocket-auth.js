@@ -0,0 +1,106 @@
+/**
+ * Authentication for the WebSocket server
+ *
+ * A verifier turns the ID token a client connects with into a user ID and
+ * looks up the user's role in a room. The Firebase verifier is used in
+ * production, the local one accepts user IDs as tokens for development
+ * and tests.
+ */
+
+const fs = require('fs')
+
+// Roles that may change the document, everyone else is read-only
+const WRITE_ROLES = ['owner', 'editor']
+
+// Rooms of projects are named after the project, see createProject in lib/projects.ts
+const PROJECT_ROOM_PREFIX = 'project_'
+
+// Plain rooms lose their prefix on the way to the server, see initCollaboration
+const ROOM_PREFIX = 'room_'
+
+const createFirebaseVerifier = () => {
+  const admin = require('firebase-admin')
+
+  if (admin.apps.length === 0) {
+    // Credentials come from GOOGLE_APPLICATION_CREDENTIALS or the hosting environment
+    admin.initializeApp({
+      projectId: process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+    })
+  }
+
+  const db = admin.firestore()
+
+  const getProjectRole = async (uid, projectId) => {
+    const projectSnap = await db.collection('projects').doc(projectId).get()
+    if (!projectSnap.exists) return null
+
+    // Same rules as getUserRole in lib/projects.ts
+    const project = projectSnap.data()
+    const collaborator = (project.collaborators || []).find((c) => c.userId === uid)
+    if (collaborator) return collaborator.role
+
+    // Anyone may watch public projects
+    return project.isPublic ? 'viewer' : null
+  }
+
+  const getRoomRole = async (uid, room) => {
+    const roomId = room.startsWith(ROOM_PREFIX) ? room : `${ROOM_PREFIX}${room}`
+    const roomRef = db.collection('rooms').doc(roomId)
+    const roomSnap = await roomRef.get()
+    if (!roomSnap.exists) return null
+
+    if (roomSnap.data().createdBy === uid) return 'owner'
+
+    // Members are registered in the room's users subcollection when joining
+    const memberSnap = await roomRef.collection('users').doc(uid).get()
+    return memberSnap.exists ? 'editor' : null
+  }
+
+  return {
+    verifyToken: async (token) => {
+      const decoded = await admin.auth().verifyIdToken(token)
+      return decoded.uid
+    },
+
+    getRole: (uid, room) =>
+      room.startsWith(PROJECT_ROOM_PREFIX)
+        ? getProjectRole(uid, room.substring(PROJECT_ROOM_PREFIX.length))
+        : getRoomRole(uid, room)
+  }
+}
+
+// Tokens are the user IDs themselves. Roles can be listed per room in a
+// JSON file ({ "<room>": { "<uid>": "viewer" } }), rooms that aren't
+// listed are open to everyone as editors
+const createLocalVerifier = (membersFile) => {
+  const members = membersFile ? JSON.parse(fs.readFileSync(membersFile, 'utf8')) : {}
+
+  return {
+    verifyToken: async (token) => token,
+
+    getRole: async (uid, room) => {
+      if (!members[room]) return 'editor'
+      return members[room][uid] || null
+    }
+  }
+}
+
+const createVerifier = () =>
+  process.env.YAUTH === 'local'
+    ? createLocalVerifier(process.env.YAUTH_MEMBERS)
+    : createFirebaseVerifier()
+
+// Resolve the access a connection gets, or null if it must be refused
+const authorize = async (verifier, token, room) => {
+  if (!token) return null
+
+  const uid = await verifier.verifyToken(token)
+  if (!uid) return null
+
+  const role = await verifier.getRole(uid, room)
+  if (!role) return null
+
+  return { uid, role, readOnly: !WRITE_ROLES.includes(role) }
+}
+
+module.exports = { createVerifier, createFirebaseVerifier, createLocalVerifier, authorize }
@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { authorize, createLocalVerifier } from './y-websocket-auth';
+
+let membersDir = '';
+let membersFile = '';
+
+beforeAll(() => {
+  membersDir = fs.mkdtempSync(path.join(os.tmpdir(), 'yauth-'));
+  membersFile = path.join(membersDir, 'members.json');
+  fs.writeFileSync(
+    membersFile,
+    JSON.stringify({ project_abc: { alice: 'owner', bob: 'editor', carol: 'viewer' } })
+  );
+});
+
+afterAll(() => {
+  fs.rmSync(membersDir, { recursive: true, force: true });
+});
+
+describe('createLocalVerifier', () => {
+  it('takes tokens as user IDs', async () => {
+    const verifier = createLocalVerifier(membersFile);
+
+    expect(await verifier.verifyToken('alice')).toBe('alice');
+  });
+
+  it('gives the listed role in listed rooms, and none to anyone else', async () => {
+    const verifier = createLocalVerifier(membersFile);
+
+    expect(await verifier.getRole('carol', 'project_abc')).toBe('viewer');
+    expect(await verifier.getRole('mallory', 'project_abc')).toBeNull();
+  });
+
+  it('lets everyone edit rooms that are not listed', async () => {
+    expect(await createLocalVerifier(membersFile).getRole('mallory', 'room_1')).toBe('editor');
+    expect(await createLocalVerifier(undefined).getRole('mallory', 'project_abc')).toBe('editor');
+  });
+});
+
+describe('authorize', () => {
+  it('accepts owners and editors with write access and viewers read-only', async () => {
+    const verifier = createLocalVerifier(membersFile);
+
+    expect(await authorize(verifier, 'alice', 'project_abc')).toEqual({
+      uid: 'alice',
+      role: 'owner',
+      readOnly: false,
+    });
+    expect(await authorize(verifier, 'bob', 'project_abc')).toMatchObject({ readOnly: false });
+    expect(await authorize(verifier, 'carol', 'project_abc')).toMatchObject({ readOnly: true });
+  });
+
+  it('refuses connections without a token or a role in the room', async () => {
+    const verifier = createLocalVerifier(membersFile);
+
+    expect(await authorize(verifier, null, 'project_abc')).toBeNull();
+    expect(await authorize(verifier, '', 'room_1')).toBeNull();
+    expect(await authorize(verifier, 'mallory', 'project_abc')).toBeNull();
+  });
+
+  it('refuses tokens the verifier turns down', async () => {
+    const rejecting = {
+      verifyToken: async () => {
+        throw new Error('Firebase ID token has expired');
+      },
+      getRole: async () => 'owner',
+    };
+    const anonymous = { verifyToken: async () => null, getRole: async () => 'owner' };
+
+    await expect(authorize(rejecting, 'expired', 'room_1')).rejects.toThrow('expired');
+    expect(await authorize(anonymous, 'token', 'room_1')).toBeNull();
+  });
+});
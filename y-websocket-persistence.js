@@ -0,0 +1,39 @@
+/**
+ * LevelDB persistence for the Yjs documents kept by the WebSocket server
+ *
+ * Every update applied to a room's document is appended to the store, the
+ * stored updates are merged into a single one periodically and when a room
+ * is unloaded so the log does not grow forever.
+ */
+
+const Y = require('yjs')
+const { LeveldbPersistence } = require('y-leveldb')
+
+const createPersistence = (directory) => {
+  const ldb = new LeveldbPersistence(directory)
+
+  return {
+    // Load the stored state into the room's document and record every
+    // later update
+    bindState: async (room, ydoc) => {
+      const persistedDoc = await ldb.getYDoc(room)
+      Y.applyUpdate(ydoc, Y.encodeStateAsUpdate(persistedDoc))
+      persistedDoc.destroy()
+
+      ydoc.on('update', (update) => {
+        ldb.storeUpdate(room, update).catch((error) => {
+          console.error(`[${new Date().toISOString()}] Failed to store update for room ${room}:`, error)
+        })
+      })
+    },
+
+    // Merge the stored updates of a room into one
+    compact: async (room) => {
+      await ldb.flushDocument(room)
+    },
+
+    destroy: () => ldb.destroy()
+  }
+}
+
+module.exports = { createPersistence }
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as Y from 'yjs';
+import { createPersistence } from './y-websocket-persistence';
+
+let dataDir = '';
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ypersistence-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+// A server run: the room's document as restored from the directory, and a
+// stop that waits for the store to close as the server's shutdown does
+const open = async (room: string) => {
+  const persistence = createPersistence(dataDir);
+  const ydoc = new Y.Doc();
+  await persistence.bindState(room, ydoc);
+  return {
+    persistence,
+    ydoc,
+    stop: async () => {
+      ydoc.destroy();
+      await persistence.destroy();
+    },
+  };
+};
+
+describe('createPersistence', () => {
+  it('restores a room from its stored updates after a restart', async () => {
+    const first = await open('room_1');
+    const blocks = first.ydoc.getMap('blocks');
+    blocks.set('a', { type: 'turtle_forward' });
+    blocks.set('b', { type: 'turtle_right' });
+    blocks.delete('b');
+    first.ydoc.getArray('proposals').push(['try a loop']);
+    await first.stop();
+
+    const second = await open('room_1');
+    expect(second.ydoc.getMap('blocks').toJSON()).toEqual({ a: { type: 'turtle_forward' } });
+    expect(second.ydoc.getArray('proposals').toArray()).toEqual(['try a loop']);
+    await second.stop();
+  });
+
+  it('keeps the content when the updates are compacted, and later updates too', async () => {
+    const first = await open('room_1');
+    const blocks = first.ydoc.getMap('blocks');
+    for (let i = 0; i < 20; i++) blocks.set(`block_${i}`, i);
+    blocks.delete('block_0');
+    await first.persistence.compact('room_1');
+    blocks.set('after', true);
+    await first.stop();
+
+    const second = await open('room_1');
+    const restored = second.ydoc.getMap('blocks');
+    expect(restored.size).toBe(20);
+    expect(restored.has('block_0')).toBe(false);
+    expect(restored.get('block_19')).toBe(19);
+    expect(restored.get('after')).toBe(true);
+    await second.stop();
+  });
+
+  it('keeps rooms apart', async () => {
+    const first = await open('room_1');
+    first.ydoc.getMap('blocks').set('a', 1);
+    await first.stop();
+
+    const other = await open('room_2');
+    expect(other.ydoc.getMap('blocks').size).toBe(0);
+    await other.stop();
+  });
+});
@@ -1,58 +1,271 @@
 #!/usr/bin/env node
 
 /**
- * Simple WebSocket server for Yjs collaboration
+ * WebSocket server for Yjs collaboration
+ *
+ * Speaks the y-protocols sync and awareness messages used by
+ * WebsocketProvider and keeps an authoritative Y.Doc per room.
  */
 
 const WebSocket = require('ws')
 const http = require('http')
+const Y = require('yjs')
+const syncProtocol = require('y-protocols/sync')
+const awarenessProtocol = require('y-protocols/awareness')
+const encoding = require('lib0/encoding')
+const decoding = require('lib0/decoding')
+const { createPersistence } = require('./y-websocket-persistence')
+const { createVerifier, authorize } = require('./y-websocket-auth')
 const wss = new WebSocket.Server({ noServer: true })
 
 const port = process.env.PORT || 1234
 const host = process.env.HOST || 'localhost'
 
-// Map to store room connections
+// Where room documents are stored and how often their updates are compacted
+const persistenceDir = process.env.YPERSISTENCE || './yjs-data'
+const compactInterval = parseInt(process.env.YPERSISTENCE_COMPACT_INTERVAL || '', 10) || 5 * 60 * 1000
+
+// Connections that don't answer a ping within this time are closed
+const pingTimeout = 30000
+
+const persistence = createPersistence(persistenceDir)
+
+// Checks the ID token of connecting clients, YAUTH=local accepts user IDs instead
+const verifier = createVerifier()
+
+// y-protocols message types, same values as WebsocketProvider
+const messageSync = 0
+const messageAwareness = 1
+const messageQueryAwareness = 3
+
+// Map of connection to the user and role it was accepted with
+const access = new Map()
+
+// Map of room name to its document, awareness and connections
 const rooms = new Map()
 
-wss.on('connection', (conn, req, { room }) => {
-  console.log(`[${new Date().toISOString()}] Client connected to room: ${room}`)
-  
-  // Add client to the room
-  if (!rooms.has(room)) {
-    rooms.set(room, new Set())
+const log = (...args) => {
+  console.log(`[${new Date().toISOString()}]`, ...args)
+}
+
+const logError = (...args) => {
+  console.error(`[${new Date().toISOString()}]`, ...args)
+}
+
+// Send a message to a connection, closing it if it can't be delivered
+const send = (room, conn, message) => {
+  if (conn.readyState !== WebSocket.CONNECTING && conn.readyState !== WebSocket.OPEN) {
+    closeConnection(room, conn)
+    return
   }
-  rooms.get(room).add(conn)
-  
-  // Send confirmation to the client
-  conn.send(JSON.stringify({
-    type: 'connection-established',
-    room
-  }))
-  
-  // Broadcast messages to all clients in the room
-  conn.on('message', (message) => {
-    if (rooms.has(room)) {
-      rooms.get(room).forEach((client) => {
-        if (client !== conn && client.readyState === WebSocket.OPEN) {
-          client.send(message.toString())
+  try {
+    conn.send(message, (error) => {
+      if (error) closeConnection(room, conn)
+    })
+  } catch (error) {
+    closeConnection(room, conn)
+  }
+}
+
+const broadcast = (room, message, except = null) => {
+  room.conns.forEach((_, conn) => {
+    if (conn !== except) send(room, conn, message)
+  })
+}
+
+const encodeAwareness = (awareness, clientIds) => {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, messageAwareness)
+  encoding.writeVarUint8Array(
+    encoder,
+    awarenessProtocol.encodeAwarenessUpdate(awareness, clientIds)
+  )
+  return encoding.toUint8Array(encoder)
+}
+
+// Get a room, restoring its document from persistence on first use
+const getRoom = (name) => {
+  if (rooms.has(name)) return rooms.get(name)
+
+  const ydoc = new Y.Doc()
+  const awareness = new awarenessProtocol.Awareness(ydoc)
+  // The server itself has no presence
+  awareness.setLocalState(null)
+
+  const room = {
+    name,
+    ydoc,
+    awareness,
+    // Each connection maps to the awareness client IDs it controls
+    conns: new Map(),
+    ready: null
+  }
+
+  // Relay every document change to all clients
+  ydoc.on('update', (update) => {
+    const encoder = encoding.createEncoder()
+    encoding.writeVarUint(encoder, messageSync)
+    syncProtocol.writeUpdate(encoder, update)
+    broadcast(room, encoding.toUint8Array(encoder))
+  })
+
+  // Relay presence changes and remember which connection owns which client
+  awareness.on('update', ({ added, updated, removed }, conn) => {
+    const changedClients = added.concat(updated, removed)
+    if (conn !== null && room.conns.has(conn)) {
+      const controlledIds = room.conns.get(conn)
+      added.forEach((clientId) => controlledIds.add(clientId))
+      removed.forEach((clientId) => controlledIds.delete(clientId))
+    }
+    // Echoing a client's own removal back makes it announce itself again
+    broadcast(room, encodeAwareness(awareness, changedClients), conn)
+  })
+
+  room.ready = persistence.bindState(name, ydoc).catch((error) => {
+    logError(`Failed to restore room ${name}:`, error)
+  })
+
+  rooms.set(name, room)
+  return room
+}
+
+// Compact and unload a room once nobody is connected, its document stays in storage
+const unloadRoom = async (room) => {
+  if (rooms.get(room.name) !== room) return
+
+  rooms.delete(room.name)
+  try {
+    await room.ready
+    await persistence.compact(room.name)
+  } catch (error) {
+    logError(`Failed to persist room ${room.name}:`, error)
+  } finally {
+    room.awareness.destroy()
+    room.ydoc.destroy()
+  }
+  log(`Room unloaded: ${room.name}`)
+}
+
+const closeConnection = (room, conn) => {
+  if (room.conns.has(conn)) {
+    const controlledIds = room.conns.get(conn)
+    room.conns.delete(conn)
+
+    // Drop the presence of everyone this connection spoke for
+    awarenessProtocol.removeAwarenessStates(
+      room.awareness,
+      Array.from(controlledIds),
+      null
+    )
+
+    if (room.conns.size === 0) {
+      unloadRoom(room)
+    }
+  }
+  access.delete(conn)
+  conn.close()
+}
+
+// Sync step 2 and updates change the document, step 1 only asks for it
+const isSyncWrite = (message) => {
+  const decoder = decoding.createDecoder(new Uint8Array(message))
+  decoding.readVarUint(decoder)
+  return decoding.readVarUint(decoder) !== syncProtocol.messageYjsSyncStep1
+}
+
+const handleMessage = (room, conn, message) => {
+  try {
+    const decoder = decoding.createDecoder(new Uint8Array(message))
+    const encoder = encoding.createEncoder()
+
+    switch (decoding.readVarUint(decoder)) {
+      case messageSync:
+        // Viewers may fetch the document but their changes are dropped
+        if (access.get(conn)?.readOnly && isSyncWrite(message)) break
+
+        encoding.writeVarUint(encoder, messageSync)
+        syncProtocol.readSyncMessage(decoder, encoder, room.ydoc, conn)
+
+        // Sync step 1 is answered with the missing part of the document
+        if (encoding.length(encoder) > 1) {
+          send(room, conn, encoding.toUint8Array(encoder))
         }
-      })
+        break
+      case messageAwareness:
+        awarenessProtocol.applyAwarenessUpdate(
+          room.awareness,
+          decoding.readVarUint8Array(decoder),
+          conn
+        )
+        break
+      case messageQueryAwareness:
+        send(
+          room,
+          conn,
+          encodeAwareness(room.awareness, Array.from(room.awareness.getStates().keys()))
+        )
+        break
+      default:
+        break
+    }
+  } catch (error) {
+    logError(`Failed to handle message in room ${room.name}:`, error)
+  }
+}
+
+wss.on('connection', (conn, req, { roomName, user }) => {
+  log(`Client ${user.uid} connected to room: ${roomName} as ${user.role}`)
+  conn.binaryType = 'arraybuffer'
+  access.set(conn, user)
+
+  const room = getRoom(roomName)
+  room.conns.set(conn, new Set())
+
+  // Messages are handled once the stored document is loaded, in arrival order
+  conn.on('message', (message) => {
+    room.ready.then(() => handleMessage(room, conn, message))
+  })
+
+  // Close connections that stopped answering
+  let pongReceived = true
+  const pingInterval = setInterval(() => {
+    if (!pongReceived) {
+      closeConnection(room, conn)
+      clearInterval(pingInterval)
+      return
     }
+    pongReceived = false
+    try {
+      conn.ping()
+    } catch (error) {
+      closeConnection(room, conn)
+      clearInterval(pingInterval)
+    }
+  }, pingTimeout)
+
+  conn.on('pong', () => {
+    pongReceived = true
   })
-  
-  // Handle disconnection
+
   conn.on('close', () => {
-    console.log(`[${new Date().toISOString()}] Client disconnected from room: ${room}`)
-    
-    // Remove client from the room
-    if (rooms.has(room)) {
-      rooms.get(room).delete(conn)
-      
-      // Remove room if empty
-      if (rooms.get(room).size === 0) {
-        rooms.delete(room)
-        console.log(`[${new Date().toISOString()}] Room deleted: ${room}`)
-      }
+    log(`Client disconnected from room: ${roomName}`)
+    closeConnection(room, conn)
+    clearInterval(pingInterval)
+  })
+
+  // Start syncing, late joiners receive the full document in answer to
+  // their own sync step 1
+  room.ready.then(() => {
+    if (!room.conns.has(conn)) return
+
+    const encoder = encoding.createEncoder()
+    encoding.writeVarUint(encoder, messageSync)
+    syncProtocol.writeSyncStep1(encoder, room.ydoc)
+    send(room, conn, encoding.toUint8Array(encoder))
+
+    const states = room.awareness.getStates()
+    if (states.size > 0) {
+      send(room, conn, encodeAwareness(room.awareness, Array.from(states.keys())))
     }
   })
 })
@@ -62,20 +275,64 @@ const server = http.createServer((request, response) => {
   response.end('Blockly Collaboration WebSocket Server\n')
 })
 
-server.on('upgrade', (request, socket, head) => {
-  // Extract room from URL path
-  const pathname = request.url.slice(1).split('/')
-  const room = pathname[0] || 'default-room'
-  
+// Refuse an upgrade before the WebSocket handshake
+const rejectUpgrade = (socket, status, message) => {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`)
+  socket.destroy()
+}
+
+server.on('upgrade', async (request, socket, head) => {
+  // Extract room from URL path and the ID token from the query string
+  const url = new URL(request.url, `http://${request.headers.host || host}`)
+  const pathname = url.pathname.slice(1).split('/')
+  const roomName = decodeURIComponent(pathname[0] || '') || 'default-room'
+  const token = url.searchParams.get('token')
+
+  let user = null
+  try {
+    user = await authorize(verifier, token, roomName)
+  } catch (error) {
+    logError(`Failed to authenticate connection to room ${roomName}:`, error.message)
+  }
+
+  if (!user) {
+    log(`Refused connection to room: ${roomName}`)
+    rejectUpgrade(socket, token ? 403 : 401, token ? 'Forbidden' : 'Unauthorized')
+    return
+  }
+
   wss.handleUpgrade(request, socket, head, ws => {
-    wss.emit('connection', ws, request, { room })
+    wss.emit('connection', ws, request, { roomName, user })
   })
 })
 
+// Periodically merge the stored updates of loaded rooms
+setInterval(() => {
+  rooms.forEach((room) => {
+    room.ready
+      .then(() => persistence.compact(room.name))
+      .catch((error) => {
+        logError(`Failed to compact room ${room.name}:`, error)
+      })
+  })
+}, compactInterval)
+
+// Persist every loaded room before shutting down
+const shutdown = async () => {
+  console.log(`\n[${new Date().toISOString()}] Saving rooms before shutdown...`)
+  await Promise.all(Array.from(rooms.values()).map(unloadRoom))
+  await persistence.destroy()
+  process.exit(0)
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
+
 server.listen(port, host, () => {
   console.log(`\nBlockly Collaboration WebSocket Server running at:\n`)
   console.log(`http://${host}:${port}`)
   console.log(`\nConnect to this server in your Blockly app using:`)
   console.log(`ws://${host}:${port}`)
+  console.log(`\nRoom documents are stored in: ${persistenceDir}`)
   console.log(`\nPress Ctrl+C to stop\n`)
 })
@@ -0,0 +1,182 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ChildProcess, spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import WebSocket from 'ws';
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+
+// Runs the server with the local verifier, tokens are user IDs
+const host = '127.0.0.1';
+let port = 0;
+let dataDir = '';
+let server: ChildProcess | null = null;
+
+const getFreePort = () =>
+  new Promise<number>((resolve, reject) => {
+    const probe = net.createServer();
+    probe.on('error', reject);
+    probe.listen(0, host, () => {
+      const { port: freePort } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(freePort));
+    });
+  });
+
+// Status of a WebSocket handshake: 101 when accepted, otherwise the refusal
+const connect = (room: string, token?: string) =>
+  new Promise<number>((resolve, reject) => {
+    const query = token === undefined ? '' : `?token=${encodeURIComponent(token)}`;
+    const request = http.request({
+      host,
+      port,
+      path: `/${room}${query}`,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': randomBytes(16).toString('base64'),
+        'Sec-WebSocket-Version': '13',
+      },
+    });
+    request.on('upgrade', (response, socket) => {
+      socket.destroy();
+      resolve(response.statusCode || 0);
+    });
+    request.on('response', (response) => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+    request.on('error', reject);
+    request.end();
+  });
+
+beforeAll(async () => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'yserver-'));
+  const membersFile = path.join(dataDir, 'members.json');
+  fs.writeFileSync(membersFile, JSON.stringify({ project_abc: { alice: 'owner', carol: 'viewer' } }));
+  port = await getFreePort();
+
+  const child = spawn(process.execPath, [path.join(__dirname, 'y-websocket-server.js')], {
+    env: {
+      ...process.env,
+      HOST: host,
+      PORT: String(port),
+      YAUTH: 'local',
+      YAUTH_MEMBERS: membersFile,
+      YPERSISTENCE: path.join(dataDir, 'yjs-data'),
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  server = child;
+
+  await new Promise<void>((resolve, reject) => {
+    let output = '';
+    child.stdout?.on('data', (data) => {
+      output += data;
+      if (output.includes('running at')) resolve();
+    });
+    child.on('exit', (code) => reject(new Error(`Server exited with ${code}`)));
+  });
+}, 20000);
+
+// Clients as the app connects them, BroadcastChannel is off so
+// documents in this process only sync through the server
+let providers: WebsocketProvider[] = [];
+
+const join = (room: string, token: string) => {
+  const ydoc = new Y.Doc();
+  const provider = new WebsocketProvider(`ws://${host}:${port}`, room, ydoc, {
+    WebSocketPolyfill: WebSocket as any,
+    params: { token },
+    disableBc: true,
+  });
+  providers.push(provider);
+  return { ydoc, provider };
+};
+
+const waitFor = async (condition: () => boolean, timeout = 5000) => {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the documents');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+const synced = (provider: WebsocketProvider) => waitFor(() => provider.synced);
+
+afterEach(() => {
+  providers.forEach((provider) => provider.destroy());
+  providers = [];
+});
+
+afterAll(async () => {
+  if (server && server.exitCode === null) {
+    const exited = new Promise((resolve) => server?.on('exit', resolve));
+    server.kill('SIGTERM');
+    await exited;
+  }
+  fs.rmSync(dataDir, { recursive: true, force: true });
+}, 20000);
+
+describe('y-websocket-server', () => {
+  it('refuses connections without a token', async () => {
+    expect(await connect('project_abc')).toBe(401);
+  });
+
+  it('refuses users who are not members of the room', async () => {
+    expect(await connect('project_abc', 'mallory')).toBe(403);
+  });
+
+  it('accepts members, viewers included', async () => {
+    expect(await connect('project_abc', 'alice')).toBe(101);
+    expect(await connect('project_abc', 'carol')).toBe(101);
+  });
+});
+
+describe('y-websocket-server sync', () => {
+  it('brings the documents of two clients together', async () => {
+    const alice = join('room_converge', 'alice');
+    const bob = join('room_converge', 'bob');
+    await Promise.all([synced(alice.provider), synced(bob.provider)]);
+
+    alice.ydoc.getMap('blocks').set('a', true);
+    bob.ydoc.getMap('blocks').set('b', true);
+
+    await waitFor(() => alice.ydoc.getMap('blocks').size === 2 && bob.ydoc.getMap('blocks').size === 2);
+    expect(alice.ydoc.getMap('blocks').toJSON()).toEqual(bob.ydoc.getMap('blocks').toJSON());
+  });
+
+  it('sends late joiners the document in answer to their sync step 1', async () => {
+    const alice = join('room_late', 'alice');
+    await synced(alice.provider);
+    alice.ydoc.getMap('blocks').set('a', true);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    // Synced is only set by the server's sync step 2
+    const dave = join('room_late', 'dave');
+    await synced(dave.provider);
+    expect(dave.ydoc.getMap('blocks').get('a')).toBe(true);
+  });
+
+  it('drops the changes of read-only connections but keeps them up to date', async () => {
+    const alice = join('project_abc', 'alice');
+    const carol = join('project_abc', 'carol');
+    await Promise.all([synced(alice.provider), synced(carol.provider)]);
+
+    carol.ydoc.getMap('blocks').set('fromViewer', true);
+    alice.ydoc.getMap('blocks').set('fromOwner', true);
+    await waitFor(() => carol.ydoc.getMap('blocks').has('fromOwner'));
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(alice.ydoc.getMap('blocks').has('fromViewer')).toBe(false);
+
+    // Nor did the server keep them for later joiners
+    const late = join('project_abc', 'alice');
+    await synced(late.provider);
+    expect(late.ydoc.getMap('blocks').has('fromOwner')).toBe(true);
+    expect(late.ydoc.getMap('blocks').has('fromViewer')).toBe(false);
+  });
+});